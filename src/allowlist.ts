@@ -0,0 +1,72 @@
+import picomatch from 'picomatch';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { formatFilePath, SensitiveFile } from './scanner.js';
+
+// Looked up in the scanned folder
+export const ALLOWLIST_FILE = '.clawignore-allow';
+
+// `<rule id>:<16 hex digits>`, as printed in JSON and SARIF reports
+const FINGERPRINT_PATTERN = /^[a-z0-9][a-z0-9-]*:[0-9a-f]{16}$/;
+
+export interface AllowEntry {
+  pattern: string;   // The entry as written
+  source: string;    // File the entry was read from
+  line?: number;     // 1-based, for entries read from .clawignore-allow
+}
+
+export interface Allowlist {
+  entries: AllowEntry[];
+  // The entry that allows `file`, if any
+  match(file: SensitiveFile): AllowEntry | undefined;
+}
+
+export function isFingerprint(pattern: string): boolean {
+  return FINGERPRINT_PATTERN.test(pattern);
+}
+
+export function parseAllowEntries(content: string, source: string): AllowEntry[] {
+  const entries: AllowEntry[] = [];
+  const lines = content.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    entries.push({ pattern: trimmed.replace(/^\.\//, ''), source, line: i + 1 });
+  }
+
+  return entries;
+}
+
+/**
+ * Paths and globs are relative to the scanned folder. A finding matches by
+ * its own path, including any archive entry or commit, or by the file it
+ * was found in; a plain path also covers everything below it.
+ */
+export function buildAllowlist(entries: AllowEntry[]): Allowlist {
+  const matchers = entries.map(entry => {
+    if (isFingerprint(entry.pattern)) {
+      return { entry, isMatch: (file: SensitiveFile) => file.fingerprint === entry.pattern };
+    }
+    const pattern = entry.pattern.replace(/\/$/, '');
+    const isGlob = picomatch(pattern, { dot: true });
+    const isMatch = (file: SensitiveFile) =>
+      [formatFilePath(file), file.relativePath].some(path => isGlob(path) || path.startsWith(`${pattern}/`));
+    return { entry, isMatch };
+  });
+
+  return {
+    entries,
+    match: file => matchers.find(({ isMatch }) => isMatch(file))?.entry,
+  };
+}
+
+/**
+ * The .clawignore-allow file in `root`, plus `allow` entries from rule
+ * packs.
+ */
+export async function loadAllowlist(root: string, packEntries: AllowEntry[] = []): Promise<Allowlist> {
+  const path = join(root, ALLOWLIST_FILE);
+  const content = await readFile(path, 'utf-8').catch(() => '');
+  return buildAllowlist([...parseAllowEntries(content, path), ...packEntries]);
+}
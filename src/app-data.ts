@@ -0,0 +1,82 @@
+import { ScanRule } from './scan-rules.js';
+
+/**
+ * Where desktop applications keep passwords, cookies, messages and mail.
+ * Found by their folder layout; where the file name alone is too generic
+ * (`Cookies`, `Login Data`), the file must also be a SQLite database with
+ * the application's tables.
+ */
+export interface AppDataStore {
+  id: string;
+  pattern: string;           // Glob for the file, or for the folder if `folder` is set
+  reason: string;
+  folder?: boolean;          // The whole folder is the store
+  sqliteTables?: string[];   // At least one must exist
+  contentCheck?: RegExp;     // For generic names in text formats
+}
+
+export const APP_DATA_STORES: AppDataStore[] = [
+  // Chromium-based browsers: Chrome, Edge, Brave, Opera, Vivaldi, ...
+  { id: 'chromium-login-data', pattern: '**/Login Data', reason: 'Browser saved passwords', sqliteTables: ['logins'] },
+  { id: 'chromium-login-data-account', pattern: '**/Login Data For Account', reason: 'Browser saved passwords', sqliteTables: ['logins'] },
+  { id: 'chromium-cookies', pattern: '**/Cookies', reason: 'Browser cookies (signed-in sessions)', sqliteTables: ['cookies'] },
+  { id: 'chromium-web-data', pattern: '**/Web Data', reason: 'Browser autofill and saved cards', sqliteTables: ['autofill', 'credit_cards'] },
+  { id: 'chromium-history', pattern: '**/History', reason: 'Browser history', sqliteTables: ['urls'] },
+  { id: 'chromium-local-state', pattern: '**/{Google/Chrome,google-chrome,Chromium,chromium,BraveSoftware/Brave-Browser,Microsoft Edge,microsoft-edge}/Local State', reason: 'Browser profile encryption key' },
+
+  // Firefox and Thunderbird profiles
+  { id: 'firefox-logins', pattern: '**/logins.json', reason: 'Firefox saved passwords', contentCheck: /"encryptedPassword"/ },
+  { id: 'firefox-key-db', pattern: '**/key4.db', reason: 'Firefox password encryption key', sqliteTables: ['nssPrivate'] },
+  { id: 'firefox-cookies', pattern: '**/cookies.sqlite', reason: 'Browser cookies (signed-in sessions)', sqliteTables: ['moz_cookies'] },
+  { id: 'firefox-history', pattern: '**/places.sqlite', reason: 'Browser history', sqliteTables: ['moz_places'] },
+  { id: 'thunderbird-profiles', pattern: '**/{.thunderbird,Thunderbird/Profiles}', reason: 'Thunderbird mail profiles', folder: true },
+
+  // Password managers and keychains
+  { id: 'macos-keychains', pattern: '**/Library/Keychains', reason: 'macOS keychains', folder: true },
+  { id: 'keychain-file', pattern: '**/*.{keychain,keychain-db}', reason: 'Keychain file' },
+  { id: 'keepass-database', pattern: '**/*.{kdbx,kdb}', reason: 'KeePass password database' },
+  { id: '1password-database', pattern: '**/1password*.sqlite', reason: '1Password local vault', sqliteTables: ['accounts', 'objects'] },
+  { id: '1password-vault', pattern: '**/*.{opvault,agilekeychain}', reason: '1Password vault', folder: true },
+  { id: 'bitwarden-data', pattern: '**/{Bitwarden,bitwarden}/data.json', reason: 'Bitwarden local vault' },
+
+  // Chat apps
+  { id: 'signal-data', pattern: '**/{Signal,signal}/{sql,attachments.noindex}', reason: 'Signal messages', folder: true },
+  { id: 'signal-config', pattern: '**/{Signal,signal}/config.json', reason: 'Signal database key' },
+  { id: 'slack-local-storage', pattern: '**/{Slack,slack}/{Local Storage,storage,IndexedDB}', reason: 'Slack local data (session tokens)', folder: true },
+  { id: 'discord-local-storage', pattern: '**/{discord,Discord,discordcanary,discordptb}/{Local Storage,IndexedDB}', reason: 'Discord local data (session tokens)', folder: true },
+  { id: 'telegram-data', pattern: '**/{Telegram Desktop,TelegramDesktop}/tdata', reason: 'Telegram session and messages', folder: true },
+  { id: 'imessage-database', pattern: '**/Library/Messages/chat.db', reason: 'iMessage history', sqliteTables: ['message'] },
+];
+
+// Matching a file anywhere inside a store folder
+function fileGlob(store: AppDataStore): string {
+  return store.folder ? `${store.pattern}/**` : store.pattern;
+}
+
+export const APP_DATA_RULES: ScanRule[] = APP_DATA_STORES.map(store => ({
+  id: store.id,
+  pattern: fileGlob(store),
+  reason: store.reason,
+  category: 'app-data',
+  confidence: 'high',
+  ...(store.folder && { store: true }),
+  ...(store.sqliteTables && { sqliteTables: store.sqliteTables }),
+  ...(store.contentCheck && { contentCheck: store.contentCheck }),
+}));
+
+const SQLITE_HEADER = Buffer.from('SQLite format 3\0', 'latin1');
+
+/**
+ * Whether `head`, the start of a file, is a SQLite database defining one
+ * of `tables`. The schema lives in the first pages, as CREATE statements.
+ */
+export function hasSqliteTables(head: Buffer, tables: string[]): boolean {
+  if (head.length < SQLITE_HEADER.length || !head.subarray(0, SQLITE_HEADER.length).equals(SQLITE_HEADER)) {
+    return false;
+  }
+
+  const text = head.toString('latin1');
+  return tables.some(table =>
+    new RegExp(`CREATE TABLE (IF NOT EXISTS )?["'\`\\[]?${table}["'\`\\]]?\\s*\\(`, 'i').test(text)
+  );
+}
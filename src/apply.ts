@@ -0,0 +1,156 @@
+import pc from 'picocolors';
+import { parseArgs } from 'util';
+import { resolve } from 'path';
+import { homedir } from 'os';
+import { stat } from 'fs/promises';
+import { scanForSensitiveFiles } from './scanner.js';
+import { generateDockerCompose, planMountPaths } from './docker-generator.js';
+import { createIgnoreMatcher, parseIgnoreRules } from './clawignore.js';
+import {
+  resolveOpenClawRoot,
+  hasOldSessions,
+  clearOldSessions,
+  stopNativeOpenClaw,
+  startOpenClaw,
+} from './docker.js';
+import { isDryRun } from './dry-run.js';
+import { getGlobalOptions, log, errorMessage, printJson } from './output.js';
+import { EXIT_OK, EXIT_ERROR, EXIT_USAGE } from './exit-codes.js';
+
+export interface ApplyOptions {
+  root?: string;
+  mounts: string[];
+  ignores: string[];
+  acceptDetected: boolean;
+  restart: boolean;
+  yes: boolean;
+}
+
+export function parseApplyArgs(args: string[]): ApplyOptions {
+  const { values } = parseArgs({
+    args,
+    options: {
+      mount: { type: 'string', multiple: true },
+      ignore: { type: 'string', multiple: true },
+      'accept-detected': { type: 'boolean' },
+      restart: { type: 'boolean' },
+      yes: { type: 'boolean', short: 'y' },
+    },
+    strict: true,
+  });
+
+  return {
+    root: getGlobalOptions().root,
+    mounts: values.mount ?? [],
+    ignores: values.ignore ?? [],
+    acceptDetected: values['accept-detected'] ?? false,
+    restart: values.restart ?? false,
+    yes: values.yes ?? false,
+  };
+}
+
+function expandHome(path: string): string {
+  if (path === '~') return homedir();
+  if (path.startsWith('~/')) return homedir() + path.slice(1);
+  return path;
+}
+
+/**
+ * Non-interactive version of the full Docker setup: scan, write .clawignore,
+ * generate docker-compose.yml and optionally start the container.
+ * Throws on any failure.
+ */
+export async function applyConfiguration(options: ApplyOptions): Promise<void> {
+  const openclawRoot = await resolveOpenClawRoot(options.root && expandHome(options.root));
+
+  if (options.mounts.length === 0) {
+    throw new Error('At least one --mount <path> is required');
+  }
+
+  const mountRoots = options.mounts.map(m => resolve(expandHome(m)));
+  for (const mountRoot of mountRoots) {
+    const stats = await stat(mountRoot).catch(() => null);
+    if (!stats) {
+      throw new Error(`Mount path does not exist: ${mountRoot}`);
+    }
+    if (!stats.isDirectory()) {
+      throw new Error(`Mount path is not a directory: ${mountRoot}`);
+    }
+  }
+
+  // Patterns keep gitignore syntax; only `~/` paths are expanded
+  const ignoredPaths = options.ignores.map(i => (i.startsWith('~/') ? expandHome(i) : i));
+
+  if (options.acceptDetected) {
+    for (const mountRoot of mountRoots) {
+      log.step(`Scanning ${pc.dim(mountRoot)}`);
+      const sensitiveFiles = await scanForSensitiveFiles(mountRoot);
+      for (const file of sensitiveFiles) {
+        ignoredPaths.push(file.path);
+      }
+      log.info(`Found ${sensitiveFiles.length} potentially sensitive files`);
+    }
+  }
+
+  const uniqueIgnored = [...new Set(ignoredPaths)];
+  const matcher = createIgnoreMatcher(parseIgnoreRules(uniqueIgnored.join('\n'), '--ignore'));
+  const mountPaths = await planMountPaths(mountRoots, matcher);
+
+  if (mountPaths.length === 0) {
+    throw new Error('Every mount path is hidden by the ignore rules, nothing left to mount');
+  }
+
+  const { composePath, clawignorePath } = await generateDockerCompose({
+    openclawRoot,
+    mountPaths,
+    mountRoots,
+    ignoredPaths: uniqueIgnored,
+  });
+
+  if (getGlobalOptions().json) {
+    printJson({ composePath, clawignorePath, mountPaths, ignoredPaths: uniqueIgnored, dryRun: isDryRun() });
+  }
+
+  const wrote = isDryRun() ? 'Would write' : 'Wrote';
+  log.success(`${wrote} ${composePath}`);
+  log.success(`${wrote} ${clawignorePath} with ${uniqueIgnored.length} entries`);
+  log.info(`${mountPaths.length} folders mounted, ${uniqueIgnored.length} items hidden`);
+
+  if (await hasOldSessions(openclawRoot)) {
+    if (options.yes) {
+      if (await clearOldSessions(openclawRoot)) {
+        log.success('Cleared old sessions');
+      } else {
+        log.warn('Could not clear old session data');
+      }
+    } else {
+      log.warn('Old session data with host paths was kept (pass --yes to clear it)');
+    }
+  }
+
+  if (options.restart) {
+    if (options.yes) {
+      await stopNativeOpenClaw();
+    }
+    await startOpenClaw(openclawRoot);
+    log.success('OpenClaw started in Docker');
+  }
+}
+
+export async function runApply(args: string[]): Promise<number> {
+  let options: ApplyOptions;
+  try {
+    options = parseApplyArgs(args);
+  } catch (err) {
+    log.error(errorMessage(err));
+    return EXIT_USAGE;
+  }
+
+  try {
+    await applyConfiguration(options);
+    return EXIT_OK;
+  } catch (err) {
+    log.error(errorMessage(err));
+    return EXIT_ERROR;
+  }
+}
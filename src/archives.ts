@@ -0,0 +1,207 @@
+import { gunzip, inflateRaw, InputType, ZlibOptions } from 'zlib';
+import { promisify } from 'util';
+
+const gunzipAsync = promisify<InputType, ZlibOptions, Buffer>(gunzip);
+const inflateRawAsync = promisify<InputType, ZlibOptions, Buffer>(inflateRaw);
+
+export interface ArchiveLimits {
+  maxArchiveSize: number;   // Larger archives on disk are not opened
+  maxExpandedSize: number;  // Total bytes decompressed per archive, nested ones included
+  maxEntries: number;       // Entries listed per archive
+  maxDepth: number;         // 1 looks into archives, 2 also into archives inside them, ...
+}
+
+export const DEFAULT_ARCHIVE_LIMITS: ArchiveLimits = {
+  maxArchiveSize: 100 * 1024 * 1024,
+  maxExpandedSize: 256 * 1024 * 1024,
+  maxEntries: 10_000,
+  maxDepth: 2,
+};
+
+export interface ArchiveEntry {
+  name: string;
+  size: number;
+  // null if the entry can't be read: encrypted, an unknown compression
+  // method, or over the expansion budget
+  read: () => Promise<Buffer | null>;
+}
+
+// Shared by an archive and everything nested in it, against zip bombs
+export interface ExpansionBudget {
+  remaining: number;
+}
+
+const ARCHIVE_PATTERN = /\.(zip|tar|tgz|tar\.gz|gz)$/i;
+
+export function isArchivePath(name: string): boolean {
+  return ARCHIVE_PATTERN.test(name);
+}
+
+/**
+ * List the files in a zip, tar, tar.gz or gz archive. Unknown or damaged
+ * archives list as empty rather than failing the scan.
+ */
+export async function listArchiveEntries(
+  name: string,
+  data: Buffer,
+  limits: ArchiveLimits,
+  budget: ExpansionBudget
+): Promise<ArchiveEntry[]> {
+  const lower = name.toLowerCase();
+
+  try {
+    if (lower.endsWith('.zip')) {
+      return listZipEntries(data, limits, budget);
+    }
+    if (lower.endsWith('.tar')) {
+      return listTarEntries(data, limits);
+    }
+
+    // .tgz, .tar.gz or a single gzipped file
+    const expanded = await expand(gunzipAsync, data, budget);
+    if (!expanded) return [];
+    if (lower.endsWith('.tgz') || lower.endsWith('.tar.gz') || isTar(expanded)) {
+      return listTarEntries(expanded, limits);
+    }
+
+    const inner = name.replace(/^.*\//, '').replace(/\.gz$/i, '');
+    return [{ name: inner, size: expanded.length, read: async () => expanded }];
+  } catch {
+    return [];
+  }
+}
+
+async function expand(
+  method: (data: InputType, options: ZlibOptions) => Promise<Buffer>,
+  data: Buffer,
+  budget: ExpansionBudget
+): Promise<Buffer | null> {
+  if (budget.remaining <= 0) return null;
+
+  try {
+    const expanded = await method(data, { maxOutputLength: budget.remaining });
+    budget.remaining -= expanded.length;
+    return expanded;
+  } catch {
+    return null; // Corrupt, or larger than the budget
+  }
+}
+
+// Zip: the central directory at the end lists every entry
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+export function listZipEntries(data: Buffer, limits: ArchiveLimits, budget: ExpansionBudget): ArchiveEntry[] {
+  // The end record is at most 22 bytes plus a 64 KiB comment from the end
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (data.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) return [];
+
+  const count = data.readUInt16LE(eocd + 10);
+  let offset = data.readUInt32LE(eocd + 16);
+  if (offset === 0xffffffff) return []; // Zip64 isn't supported
+
+  const entries: ArchiveEntry[] = [];
+  for (let i = 0; i < count && entries.length < limits.maxEntries; i++) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== CENTRAL_SIGNATURE) break;
+
+    const flags = data.readUInt16LE(offset + 8);
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const size = data.readUInt32LE(offset + 24);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    // Bit 11 marks UTF-8 names; older tools wrote code page 437
+    const name = data.toString(flags & 0x800 ? 'utf8' : 'latin1', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue; // Directory
+
+    const read = async (): Promise<Buffer | null> => {
+      if (flags & 0x1) return null; // Encrypted
+      if (localOffset + 30 > data.length || data.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) return null;
+
+      const start = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+      const compressed = data.subarray(start, start + compressedSize);
+      if (method === 0) return compressed;
+      if (method === 8) return expand(inflateRawAsync, compressed, budget);
+      return null;
+    };
+
+    entries.push({ name, size, read });
+  }
+
+  return entries;
+}
+
+// Tar: 512-byte headers, each followed by the file's data
+const BLOCK = 512;
+
+function isTar(data: Buffer): boolean {
+  return data.length >= BLOCK && data.toString('latin1', 257, 262) === 'ustar';
+}
+
+function readString(data: Buffer, start: number, length: number): string {
+  const end = data.indexOf(0, start);
+  return data.toString('utf8', start, end >= 0 && end < start + length ? end : start + length);
+}
+
+// Pax extended headers: "<length> <key>=<value>\n" records
+function readPaxPath(data: Buffer): string | undefined {
+  for (const record of data.toString('utf8').split('\n')) {
+    const match = /^\d+ path=(.*)$/.exec(record);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+function listTarEntries(data: Buffer, limits: ArchiveLimits): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  let longName: string | undefined;
+
+  while (offset + BLOCK <= data.length && entries.length < limits.maxEntries) {
+    const header = data.subarray(offset, offset + BLOCK);
+    if (header.every(byte => byte === 0)) break; // End of archive
+
+    const sizeField = readString(header, 124, 12).trim();
+    const size = parseInt(sizeField || '0', 8);
+    if (!Number.isFinite(size) || size < 0) break;
+
+    const type = String.fromCharCode(header[156] || 0x30);
+    const body = data.subarray(offset + BLOCK, offset + BLOCK + size);
+    offset += BLOCK + Math.ceil(size / BLOCK) * BLOCK;
+
+    if (type === 'L') {
+      longName = readString(body, 0, body.length); // GNU long name for the next entry
+      continue;
+    }
+    if (type === 'x') {
+      longName = readPaxPath(body) ?? longName;
+      continue;
+    }
+    if (type !== '0' && type !== '7') {
+      longName = undefined; // Directories, links, devices, global headers
+      continue;
+    }
+
+    let name = longName ?? readString(header, 0, 100);
+    if (!longName && header.toString('latin1', 257, 262) === 'ustar') {
+      const prefix = readString(header, 345, 155);
+      if (prefix) name = `${prefix}/${name}`;
+    }
+    longName = undefined;
+
+    entries.push({ name: name.replace(/^\.\//, ''), size, read: async () => body });
+  }
+
+  return entries;
+}
@@ -0,0 +1,246 @@
+import pc from 'picocolors';
+import { parseArgs } from 'util';
+import { copyFile, mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { basename, dirname, join } from 'path';
+import { homedir } from 'os';
+import { isDryRun, writeOutputFile, reportRemoval } from './dry-run.js';
+import { getGlobalOptions, log, errorMessage, printJson } from './output.js';
+import { EXIT_OK, EXIT_ERROR, EXIT_USAGE } from './exit-codes.js';
+
+// Older snapshots are pruned once there are more than this many
+const MAX_SNAPSHOTS = 50;
+
+export interface BackupEntry {
+  path: string;      // Original location of the file
+  existed: boolean;  // False if the file was created by the write
+  file?: string;     // Copy inside the snapshot directory
+}
+
+export interface Snapshot {
+  id: string;
+  createdAt: string;
+  reason: string;    // What was about to overwrite the files
+  files: BackupEntry[];
+}
+
+export function getBackupDir(): string {
+  return join(homedir(), '.openclaw', 'backups');
+}
+
+function createSnapshotId(now: Date): string {
+  // Sortable and safe as a directory name
+  return now.toISOString().replace(/[:.]/g, '-');
+}
+
+/**
+ * Copy the current versions of `paths` into a new timestamped snapshot
+ * before they are overwritten. Files that don't exist yet are recorded too,
+ * so a rollback removes them again.
+ */
+export async function snapshotFiles(paths: string[], reason: string): Promise<Snapshot> {
+  const now = new Date();
+
+  if (isDryRun()) {
+    return { id: 'dry-run', createdAt: now.toISOString(), reason, files: [] };
+  }
+
+  let id = createSnapshotId(now);
+  const backupDir = getBackupDir();
+
+  // Two writes within the same millisecond get distinct snapshots
+  const existing = new Set(await readdir(backupDir).catch(() => [] as string[]));
+  for (let n = 1; existing.has(id); n++) {
+    id = `${createSnapshotId(now)}-${n}`;
+  }
+
+  const snapshotDir = join(backupDir, id);
+  await mkdir(snapshotDir, { recursive: true });
+
+  const files: BackupEntry[] = [];
+  for (const [index, path] of [...new Set(paths)].entries()) {
+    const file = `${index}-${basename(path)}`;
+    try {
+      await copyFile(path, join(snapshotDir, file));
+      files.push({ path, existed: true, file });
+    } catch {
+      files.push({ path, existed: false });
+    }
+  }
+
+  const snapshot: Snapshot = { id, createdAt: now.toISOString(), reason, files };
+  await writeFile(join(snapshotDir, 'snapshot.json'), JSON.stringify(snapshot, null, 2) + '\n');
+
+  await pruneSnapshots();
+  return snapshot;
+}
+
+/**
+ * All snapshots, newest first.
+ */
+export async function listSnapshots(): Promise<Snapshot[]> {
+  const backupDir = getBackupDir();
+  const ids = await readdir(backupDir).catch(() => [] as string[]);
+  const snapshots: Snapshot[] = [];
+
+  for (const id of ids) {
+    try {
+      const content = await readFile(join(backupDir, id, 'snapshot.json'), 'utf-8');
+      snapshots.push(JSON.parse(content));
+    } catch {
+      // Not a snapshot directory, or an incomplete one
+    }
+  }
+
+  return snapshots.sort((a, b) => b.id.localeCompare(a.id));
+}
+
+async function pruneSnapshots(): Promise<void> {
+  const snapshots = await listSnapshots();
+  for (const snapshot of snapshots.slice(MAX_SNAPSHOTS)) {
+    await rm(join(getBackupDir(), snapshot.id), { recursive: true, force: true });
+  }
+}
+
+/**
+ * Restore every file of a snapshot, or none of them. All copies are staged
+ * next to their targets first, then renamed into place. The current state
+ * is snapshotted beforehand, so a rollback can itself be rolled back, and
+ * if a rename or removal fails, the files already replaced are put back
+ * from it. Only a crash between two renames can leave some files restored
+ * and others not; rolling back to that snapshot repairs it.
+ */
+export async function restoreSnapshot(id: string): Promise<Snapshot> {
+  const snapshots = await listSnapshots();
+  const snapshot = snapshots.find(s => s.id === id);
+  if (!snapshot) {
+    throw new Error(`No backup with id ${id}`);
+  }
+
+  const snapshotDir = join(getBackupDir(), snapshot.id);
+
+  if (isDryRun()) {
+    for (const entry of snapshot.files) {
+      if (entry.existed && entry.file) {
+        await writeOutputFile(entry.path, await readFile(join(snapshotDir, entry.file), 'utf-8'));
+      } else {
+        reportRemoval(entry.path);
+      }
+    }
+    return snapshot;
+  }
+
+  const staged: { temp: string; path: string }[] = [];
+
+  try {
+    for (const entry of snapshot.files) {
+      if (!entry.existed || !entry.file) continue;
+      const temp = join(dirname(entry.path), `.${basename(entry.path)}.clawignore-restore-${process.pid}`);
+      await mkdir(dirname(entry.path), { recursive: true });
+      await copyFile(join(snapshotDir, entry.file), temp);
+      staged.push({ temp, path: entry.path });
+    }
+  } catch (err) {
+    for (const { temp } of staged) {
+      await rm(temp, { force: true });
+    }
+    throw err;
+  }
+
+  const current = await snapshotFiles(snapshot.files.map(f => f.path), `rollback to ${snapshot.id}`);
+  const done = new Set<string>();
+
+  try {
+    for (const { temp, path } of staged) {
+      await rename(temp, path);
+      done.add(path);
+    }
+    for (const entry of snapshot.files) {
+      if (!entry.existed) {
+        await rm(entry.path, { force: true });
+        done.add(entry.path);
+      }
+    }
+  } catch (err) {
+    for (const { temp } of staged) {
+      await rm(temp, { force: true });
+    }
+    await undoRestore(current, done);
+    throw err;
+  }
+
+  return snapshot;
+}
+
+// Put `paths` back as they were in `current`, taken just before a restore
+async function undoRestore(current: Snapshot, paths: Set<string>): Promise<void> {
+  const currentDir = join(getBackupDir(), current.id);
+  for (const entry of current.files) {
+    if (!paths.has(entry.path)) continue;
+    if (entry.existed && entry.file) {
+      await copyFile(join(currentDir, entry.file), entry.path);
+    } else {
+      await rm(entry.path, { force: true });
+    }
+  }
+}
+
+export async function runRollback(args: string[]): Promise<number> {
+  let values: { list?: boolean; to?: string };
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        list: { type: 'boolean' },
+        to: { type: 'string' },
+      },
+      strict: true,
+    }));
+  } catch (err) {
+    log.error(errorMessage(err));
+    return EXIT_USAGE;
+  }
+
+  try {
+    const snapshots = await listSnapshots();
+
+    if (values.list) {
+      if (getGlobalOptions().json) {
+        printJson(snapshots);
+        return EXIT_OK;
+      }
+      if (snapshots.length === 0) {
+        console.log('No backups yet.');
+        return EXIT_OK;
+      }
+      for (const snapshot of snapshots) {
+        const existing = snapshot.files.filter(f => f.existed).length;
+        console.log(`${pc.cyan(snapshot.id)}  ${snapshot.reason} ${pc.dim(`(${existing}/${snapshot.files.length} files)`)}`);
+        for (const entry of snapshot.files) {
+          console.log(pc.dim(`    ${entry.existed ? '' : '(new) '}${entry.path}`));
+        }
+      }
+      return EXIT_OK;
+    }
+
+    const id = values.to ?? snapshots[0]?.id;
+    if (!id) {
+      log.error(`No backups found in ${getBackupDir()}`);
+      return EXIT_ERROR;
+    }
+
+    const snapshot = await restoreSnapshot(id);
+    if (getGlobalOptions().json) {
+      printJson(snapshot);
+      return EXIT_OK;
+    }
+    log.success(`Restored backup ${snapshot.id} (${snapshot.reason})`);
+    for (const entry of snapshot.files) {
+      console.log(`  ${entry.existed ? pc.green('restored') : pc.yellow('removed ')} ${entry.path}`);
+    }
+    log.info('Restart OpenClaw to apply the restored configuration.');
+    return EXIT_OK;
+  } catch (err) {
+    log.error(errorMessage(err));
+    return EXIT_ERROR;
+  }
+}
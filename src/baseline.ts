@@ -0,0 +1,135 @@
+import { readFile } from 'fs/promises';
+import { formatFilePath, SensitiveFile } from './scanner.js';
+import { Severity } from './severity.js';
+import { writeOutputFile } from './dry-run.js';
+
+export const BASELINE_VERSION = 1;
+
+// One accepted finding
+export interface BaselineEntry {
+  fingerprint: string;
+  ruleId: string;
+  path: string;        // As reported, relative to the scanned folder
+  severity: Severity;
+}
+
+interface BaselineData {
+  version: number;
+  root: string;
+  updatedAt: string;
+  findings: BaselineEntry[];
+}
+
+// `new`: not in the baseline. `changed`: same rule and path, new content.
+export type BaselineState = 'new' | 'changed';
+
+export interface BaselineComparison {
+  new: number;
+  changed: number;
+  unchanged: number;
+  resolved: BaselineEntry[];   // Accepted, and no longer found
+}
+
+/**
+ * The accepted findings in a baseline file, or null if there is none yet.
+ */
+export async function readBaseline(path: string): Promise<BaselineEntry[] | null> {
+  let content: string;
+  try {
+    content = await readFile(path, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  let data: Partial<BaselineData>;
+  try {
+    data = JSON.parse(content);
+  } catch (err) {
+    throw new Error(`Invalid baseline ${path}: ${err instanceof Error ? err.message : err}`);
+  }
+  if (data.version !== BASELINE_VERSION || !Array.isArray(data.findings)) {
+    throw new Error(`Invalid baseline ${path}: expected version ${BASELINE_VERSION} with a findings list`);
+  }
+  return data.findings;
+}
+
+/**
+ * Accept every finding in `files`, replacing what the baseline held.
+ */
+export async function writeBaseline(path: string, files: SensitiveFile[], root: string): Promise<void> {
+  const data: BaselineData = {
+    version: BASELINE_VERSION,
+    root,
+    updatedAt: new Date().toISOString(),
+    findings: files.map(file => ({
+      fingerprint: file.fingerprint,
+      ruleId: file.ruleId,
+      path: formatFilePath(file),
+      severity: file.severity,
+    })),
+  };
+  await writeOutputFile(path, JSON.stringify(data, null, 2) + '\n');
+}
+
+/**
+ * Mark each finding new or changed against the baseline, and drop the
+ * ones it accepts. Accepted content stays accepted when the file moves or
+ * is copied; a different fingerprint at an accepted path is a change.
+ */
+export function compareWithBaseline(
+  files: SensitiveFile[],
+  entries: BaselineEntry[]
+): { files: SensitiveFile[]; comparison: BaselineComparison } {
+  const byExact = groupEntries(entries, entry => `${entry.fingerprint}\0${entry.ruleId}\0${entry.path}`);
+  const byFingerprint = groupEntries(entries, entry => entry.fingerprint);
+  const byLocation = groupEntries(entries, entry => `${entry.ruleId}\0${entry.path}`);
+  const remaining = new Set(entries);
+  const comparison: BaselineComparison = { new: 0, changed: 0, unchanged: 0, resolved: [] };
+
+  const claim = (candidates: BaselineEntry[] | undefined): boolean => {
+    const entry = candidates?.find(candidate => remaining.has(candidate));
+    if (entry) remaining.delete(entry);
+    return entry !== undefined;
+  };
+
+  // Exact matches claim their entries first, so a moved copy doesn't
+  // take another file's entry
+  const matched = new Set(files.filter(file =>
+    claim(byExact.get(`${file.fingerprint}\0${file.ruleId}\0${formatFilePath(file)}`))
+  ));
+
+  const results: SensitiveFile[] = [];
+  for (const file of files) {
+    // Shown allowlisted findings are neither accepted nor new
+    if (file.allowed) {
+      results.push(file);
+      continue;
+    }
+    if (matched.has(file) || byFingerprint.has(file.fingerprint)) {
+      if (!matched.has(file)) claim(byFingerprint.get(file.fingerprint));
+      comparison.unchanged++;
+      continue;
+    }
+
+    const state: BaselineState = claim(byLocation.get(`${file.ruleId}\0${formatFilePath(file)}`)) ? 'changed' : 'new';
+    comparison[state]++;
+    results.push({ ...file, baselineState: state });
+  }
+
+  comparison.resolved = [...remaining];
+  return { files: results, comparison };
+}
+
+function groupEntries(entries: BaselineEntry[], key: (entry: BaselineEntry) => string): Map<string, BaselineEntry[]> {
+  const groups = new Map<string, BaselineEntry[]>();
+  for (const entry of entries) {
+    const name = key(entry);
+    groups.set(name, [...(groups.get(name) ?? []), entry]);
+  }
+  return groups;
+}
+
+// "2 new, 1 changed, 3 resolved since the baseline"
+export function formatBaselineSummary(comparison: BaselineComparison): string {
+  return `${comparison.new} new, ${comparison.changed} changed, ${comparison.resolved.length} resolved since the baseline`;
+}
@@ -4,8 +4,10 @@ import { readdir } from 'fs/promises';
 import { join, relative, basename } from 'path';
 import { homedir } from 'os';
 import * as readline from 'readline';
+import { matchPathRule, ScanRule } from './scan-rules.js';
+import { TOOL_CREDENTIAL_ROOTS } from './tool-credentials.js';
 
-interface FileNode {
+export interface FileNode {
   name: string;
   path: string;
   relativePath: string;
@@ -14,7 +16,7 @@ interface FileNode {
   expanded?: boolean;
   selected?: boolean;
   depth: number;
-  isSensitive?: boolean;  // Auto-detected as sensitive
+  rule?: ScanRule;        // Auto-detected as sensitive, by this rule
 }
 
 // Files/folders to always hide from the browser (system stuff)
@@ -40,96 +42,6 @@ const SYSTEM_HIDDEN = [
   '.nvm',
 ];
 
-// Sensitive file/folder patterns to auto-select as HIDDEN
-const SENSITIVE_PATTERNS = [
-  // Exact names
-  '.env',
-  '.env.local',
-  '.env.development',
-  '.env.production',
-  '.env.staging',
-  '.ssh',
-  '.aws',
-  '.gcp',
-  '.azure',
-  '.kube',
-  '.docker',
-  '.npmrc',
-  '.pypirc',
-  '.netrc',
-  '.gitconfig',
-  '.bash_history',
-  '.zsh_history',
-  'secrets',
-  'private',
-  'credentials',
-  '.credentials',
-  'passwords',
-  '.passwords',
-  // Patterns (checked with includes/endsWith)
-];
-
-const SENSITIVE_EXTENSIONS = [
-  '.pem',
-  '.key',
-  '.p12',
-  '.pfx',
-  '.jks',
-  '.keystore',
-];
-
-const SENSITIVE_KEYWORDS = [
-  'secret',
-  'credential',
-  'password',
-  'private_key',
-  'privatekey',
-  'api_key',
-  'apikey',
-  'token',
-];
-
-function isSensitivePath(name: string, path: string): boolean {
-  const lowerName = name.toLowerCase();
-  const lowerPath = path.toLowerCase();
-
-  // Check exact matches
-  if (SENSITIVE_PATTERNS.includes(lowerName)) {
-    return true;
-  }
-
-  // Check .env.* pattern
-  if (lowerName.startsWith('.env.') || lowerName === '.env') {
-    return true;
-  }
-
-  // Check extensions
-  for (const ext of SENSITIVE_EXTENSIONS) {
-    if (lowerName.endsWith(ext)) {
-      return true;
-    }
-  }
-
-  // Check keywords in name
-  for (const keyword of SENSITIVE_KEYWORDS) {
-    if (lowerName.includes(keyword)) {
-      return true;
-    }
-  }
-
-  // Check for id_rsa, id_ed25519, etc.
-  if (lowerName.startsWith('id_') && !lowerName.includes('.pub')) {
-    return true;
-  }
-
-  // Check for serviceAccountKey*.json
-  if (lowerName.startsWith('serviceaccountkey') && lowerName.endsWith('.json')) {
-    return true;
-  }
-
-  return false;
-}
-
 export interface BrowseResult {
   ignoredPaths: string[];    // Paths user selected to HIDE (for .clawignore)
   mountPaths: string[];      // Specific paths to mount (can be any depth)
@@ -145,9 +57,10 @@ interface SensitiveFileItem {
 
 /**
  * Browse the user's Mac filesystem and select files to IGNORE.
+ * `preSelected` paths, such as scanner findings, start out selected.
  * Returns the ignored paths and all available paths.
  */
-export async function browseAndSelectIgnored(): Promise<BrowseResult> {
+export async function browseAndSelectIgnored(preSelected: string[] = []): Promise<BrowseResult> {
   const home = homedir();
   const tree = await buildFileTree(home, home, 0);
 
@@ -155,14 +68,14 @@ export async function browseAndSelectIgnored(): Promise<BrowseResult> {
   const sensitiveFiles = collectSensitiveFiles(tree, home);
 
   // If there are sensitive files, show the overview first
-  let preSelectedPaths: Set<string> = new Set();
+  let preSelectedPaths = new Set<string>(preSelected);
   if (sensitiveFiles.length > 0) {
     const overviewResult = await runSensitiveFilesOverview(sensitiveFiles);
     if (overviewResult === null) {
       // User cancelled
       return { ignoredPaths: [], mountPaths: [] };
     }
-    preSelectedPaths = overviewResult;
+    preSelectedPaths = new Set([...preSelected, ...overviewResult]);
   }
 
   return await runIgnoreBrowser(tree, home, preSelectedPaths);
@@ -176,13 +89,13 @@ function collectSensitiveFiles(tree: FileNode[], rootPath: string): SensitiveFil
 
   const traverse = (nodes: FileNode[]) => {
     for (const node of nodes) {
-      if (node.isSensitive) {
+      if (node.rule) {
         result.push({
           name: node.name,
           path: node.path,
           relativePath: node.relativePath,
           selected: true, // Pre-select all sensitive files
-          reason: getSensitiveReason(node.name),
+          reason: getSensitiveReason(node.rule),
         });
       }
       if (node.children) {
@@ -196,35 +109,10 @@ function collectSensitiveFiles(tree: FileNode[], rootPath: string): SensitiveFil
 }
 
 /**
- * Get a human-readable reason why a file is considered sensitive
+ * Why a file is considered sensitive, with the fix for tool credentials
  */
-function getSensitiveReason(name: string): string {
-  const lowerName = name.toLowerCase();
-
-  if (lowerName.startsWith('.env')) return 'Environment variables may contain secrets';
-  if (lowerName === '.ssh' || lowerName.startsWith('id_')) return 'SSH keys and credentials';
-  if (lowerName === '.aws') return 'AWS credentials';
-  if (lowerName === '.gcp') return 'Google Cloud credentials';
-  if (lowerName === '.azure') return 'Azure credentials';
-  if (lowerName === '.kube') return 'Kubernetes credentials';
-  if (lowerName === '.docker') return 'Docker credentials';
-  if (lowerName === '.npmrc') return 'NPM authentication tokens';
-  if (lowerName === '.pypirc') return 'PyPI authentication';
-  if (lowerName === '.netrc') return 'Network credentials';
-  if (lowerName === '.gitconfig') return 'Git configuration';
-  if (lowerName.includes('history')) return 'Command history may contain secrets';
-  if (lowerName.includes('secret')) return 'Contains "secret" in name';
-  if (lowerName.includes('credential')) return 'Contains "credential" in name';
-  if (lowerName.includes('password')) return 'Contains "password" in name';
-  if (lowerName.includes('private')) return 'Private data';
-  if (lowerName.includes('token')) return 'May contain authentication tokens';
-  if (lowerName.includes('api_key') || lowerName.includes('apikey')) return 'May contain API keys';
-  if (lowerName.endsWith('.pem') || lowerName.endsWith('.key')) return 'Private key file';
-  if (lowerName.endsWith('.p12') || lowerName.endsWith('.pfx')) return 'Certificate with private key';
-  if (lowerName.endsWith('.jks') || lowerName.endsWith('.keystore')) return 'Java keystore';
-  if (lowerName.startsWith('serviceaccount')) return 'Service account credentials';
-
-  return 'Potentially sensitive file';
+function getSensitiveReason(rule: ScanRule): string {
+  return rule.remediation ? `${rule.reason}. ${rule.remediation}` : rule.reason;
 }
 
 /**
@@ -353,7 +241,7 @@ async function runSensitiveFilesOverview(files: SensitiveFileItem[]): Promise<Se
   });
 }
 
-async function buildFileTree(
+export async function buildFileTree(
   dir: string,
   rootPath: string,
   depth: number,
@@ -381,19 +269,21 @@ async function buildFileTree(
     // Skip system folders at root level
     if (depth === 0 && SYSTEM_HIDDEN.includes(entry.name)) continue;
 
-    // Skip hidden files (but show .env files)
-    if (entry.name.startsWith('.') && !entry.name.startsWith('.env') && !entry.name.startsWith('.openclaw')) {
-      // Allow .ssh, .aws, .config to be shown so users can ignore them
-      if (!['ssh', 'aws', 'config', 'kube'].some(s => entry.name.includes(s))) {
-        continue;
-      }
-    }
-
     const fullPath = join(dir, entry.name);
     const relativePath = relative(rootPath, fullPath) || entry.name;
 
-    // Check if this is a sensitive file/folder
-    const sensitive = isSensitivePath(entry.name, fullPath);
+    // Same rules as the scanner, by path only. Personal data and marker
+    // rules match any document by extension, so only the scanner can judge them
+    const match = matchPathRule(relativePath, { isDirectory: entry.isDirectory() });
+    const rule = match?.pii || match?.markers ? undefined : match;
+
+    // Skip hidden files, unless sensitive (so users can ignore them) or
+    // on the way to something sensitive, like .config
+    if (entry.name.startsWith('.') && !entry.name.startsWith('.openclaw') && !rule) {
+      if (!['ssh', 'aws', 'config', 'kube'].some(s => entry.name.includes(s)) && !TOOL_CREDENTIAL_ROOTS.has(entry.name)) {
+        continue;
+      }
+    }
 
     const node: FileNode = {
       name: entry.name,
@@ -403,7 +293,7 @@ async function buildFileTree(
       depth,
       selected: false,
       expanded: false, // All folders collapsed by default
-      isSensitive: sensitive,
+      rule,
     };
 
     if (entry.isDirectory()) {
@@ -478,11 +368,11 @@ async function runIgnoreBrowser(
 
       // Show status hint
       let status = '';
-      if (isSelected && node.isSensitive) {
+      if (isSelected && node.rule) {
         status = pc.yellow(' [SENSITIVE]');
       } else if (isSelected) {
         status = pc.red(' [HIDDEN]');
-      } else if (node.isSensitive) {
+      } else if (node.rule) {
         status = pc.dim(' (sensitive)');
       }
 
@@ -0,0 +1,192 @@
+import pc from 'picocolors';
+import { parseArgs } from 'util';
+import { join, resolve } from 'path';
+import { homedir } from 'os';
+import { stat } from 'fs/promises';
+import { createIgnoreMatcher, readIgnoreRules, IgnoreRule } from './clawignore.js';
+import { readComposeVolumes, resolveOpenClawRoot, VolumeMount } from './docker.js';
+import { readManifest } from './manifest.js';
+import { getGlobalOptions, log, errorMessage, printJson } from './output.js';
+import { EXIT_USAGE } from './exit-codes.js';
+
+const CONTAINER_WORKSPACE = '/home/node/.openclaw/workspace';
+
+export type PathDecision =
+  | { kind: 'mounted'; mount: VolumeMount }
+  | { kind: 'ignored'; rule: IgnoreRule }
+  | { kind: 'not-mounted' }
+  | { kind: 'file-not-mounted' }
+  | { kind: 'file-skipped' };
+
+export interface PathExplanation {
+  path: string;
+  visible: boolean;
+  containerPath: string;
+  decision: PathDecision;
+  // A .clawignore rule that hides the path although a mount still exposes it
+  conflictingRule?: IgnoreRule;
+}
+
+interface ExplainContext {
+  composePath: string;
+  rules: IgnoreRule[];
+  mounts: VolumeMount[] | null;
+  selectedPaths?: string[];  // mountPaths recorded in the manifest
+}
+
+/**
+ * Decide whether a host path is visible inside the container, and why.
+ * Mounts are what Docker enforces, so a path inside a bind mount is visible
+ * even if a .clawignore rule says otherwise.
+ */
+export async function explainPath(hostPath: string, context: ExplainContext): Promise<PathExplanation> {
+  const home = homedir();
+  const matcher = createIgnoreMatcher(context.rules, home);
+  const stats = await stat(hostPath).catch(() => null);
+  const isDirectory = stats?.isDirectory() ?? false;
+
+  const rule = matcher.match(hostPath, isDirectory);
+  const hidingRule = rule && !rule.negated ? rule : undefined;
+
+  // Longest source prefix wins, as nested mounts shadow their parents
+  const mount = (context.mounts ?? [])
+    .filter(m => hostPath === m.source || hostPath.startsWith(m.source.replace(/\/+$/, '') + '/'))
+    .sort((a, b) => b.source.length - a.source.length)[0];
+
+  if (mount) {
+    return {
+      path: hostPath,
+      visible: true,
+      containerPath: mount.target + hostPath.slice(mount.source.replace(/\/+$/, '').length),
+      decision: { kind: 'mounted', mount },
+      conflictingRule: hidingRule,
+    };
+  }
+
+  // Where the path would appear if its folder were mounted
+  const containerPath = hostPath.startsWith(home + '/')
+    ? `${CONTAINER_WORKSPACE}/${hostPath.slice(home.length + 1)}`
+    : `${CONTAINER_WORKSPACE}/${hostPath.split('/').pop()}`;
+
+  let decision: PathDecision;
+  if (hidingRule) {
+    decision = { kind: 'ignored', rule: hidingRule };
+  } else if (stats && !isDirectory && context.selectedPaths?.includes(hostPath)) {
+    decision = { kind: 'file-skipped' };
+  } else if (stats && !isDirectory) {
+    decision = { kind: 'file-not-mounted' };
+  } else {
+    decision = { kind: 'not-mounted' };
+  }
+
+  return { path: hostPath, visible: false, containerPath, decision };
+}
+
+function describeDecision(explanation: PathExplanation, composePath: string): string {
+  const { decision } = explanation;
+  switch (decision.kind) {
+    case 'mounted': {
+      const location = decision.mount.line ? `${composePath}:${decision.mount.line}` : composePath;
+      return `${location}:${decision.mount.source} -> ${decision.mount.target}`;
+    }
+    case 'ignored':
+      return `${decision.rule.source}:${decision.rule.line}:${decision.rule.pattern}`;
+    case 'file-skipped':
+      return 'selected for mounting, but skipped because only directories can be mounted';
+    case 'file-not-mounted':
+      return 'plain file outside every mounted folder (only directories are mounted)';
+    case 'not-mounted':
+      return 'not inside any mounted folder';
+  }
+}
+
+function printExplanation(explanation: PathExplanation, context: ExplainContext) {
+  const reasonLabel = explanation.decision.kind === 'mounted' ? 'mount' : 'reason';
+  const known = context.mounts !== null || explanation.decision.kind === 'ignored';
+  const status = !known
+    ? pc.yellow('unknown')
+    : explanation.visible ? pc.green('visible') : pc.red('hidden');
+  const container = explanation.visible
+    ? explanation.containerPath
+    : pc.dim(`${explanation.containerPath} (${known ? 'not present' : 'if mounted'})`);
+
+  console.log(explanation.path);
+  console.log(`  status:    ${status}`);
+  console.log(`  container: ${container}`);
+  const reason = known
+    ? describeDecision(explanation, context.composePath)
+    : 'no .clawignore rule matches, and there are no mounts to check';
+  console.log(`  ${(reasonLabel + ':').padEnd(10)} ${reason}`);
+
+  if (explanation.conflictingRule) {
+    const r = explanation.conflictingRule;
+    console.log(pc.yellow(`  warning:   ${r.source}:${r.line}:${r.pattern} hides this path, but it is still mounted`));
+    console.log(pc.yellow('             re-run clawignore to regenerate docker-compose.yml'));
+  }
+}
+
+/**
+ * Modelled on `git check-ignore`: prints the hidden paths, or with -v an
+ * explanation for every path. Exits 0 if any path is hidden, 1 if none are.
+ */
+export async function runCheckIgnore(args: string[]): Promise<number> {
+  let values: { verbose?: boolean };
+  let positionals: string[];
+  try {
+    ({ values, positionals } = parseArgs({
+      args,
+      options: {
+        verbose: { type: 'boolean', short: 'v' },
+      },
+      allowPositionals: true,
+      strict: true,
+    }));
+  } catch (err) {
+    log.error(errorMessage(err));
+    return EXIT_USAGE;
+  }
+
+  if (positionals.length === 0) {
+    log.error('Usage: clawignore check-ignore [-v] <path>...');
+    return EXIT_USAGE;
+  }
+
+  const openclawRoot = await resolveOpenClawRoot(getGlobalOptions().root);
+  const composePath = join(openclawRoot, 'docker-compose.yml');
+  const context: ExplainContext = {
+    composePath,
+    rules: await readIgnoreRules(join(openclawRoot, '.clawignore')),
+    mounts: await readComposeVolumes(composePath),
+    selectedPaths: (await readManifest(openclawRoot).catch(() => null))?.mountPaths,
+  };
+
+  const { json } = getGlobalOptions();
+  if (!context.mounts && values.verbose && !json) {
+    console.log(pc.yellow(`No OpenClaw service found in ${composePath}; showing .clawignore rules only`));
+  }
+
+  let anyHidden = false;
+  const results: (PathExplanation & { hidden: boolean })[] = [];
+  for (const target of positionals) {
+    const explanation = await explainPath(resolve(target), context);
+
+    // Without mount information, .clawignore is the only evidence we have
+    const hidden = context.mounts ? !explanation.visible : explanation.decision.kind === 'ignored';
+    if (hidden) anyHidden = true;
+
+    if (json) {
+      results.push({ ...explanation, hidden });
+    } else if (values.verbose) {
+      printExplanation(explanation, context);
+    } else if (hidden) {
+      console.log(explanation.path);
+    }
+  }
+
+  if (json) {
+    printJson(results);
+  }
+
+  // git check-ignore semantics, see exit-codes.ts
+  return anyHidden ? 0 : 1;
+}
@@ -0,0 +1,127 @@
+import ignorePackage, { Ignore } from 'ignore';
+import { readFile } from 'fs/promises';
+import { isAbsolute, relative } from 'path';
+import { homedir } from 'os';
+
+// `ignore` is CommonJS; under NodeNext its factory sits on `.default`
+const ignore = ignorePackage.default;
+
+export interface IgnoreRule {
+  pattern: string;   // The line as written in the file
+  source: string;    // File the rule was read from
+  line: number;      // 1-based line number in the source file
+  negated: boolean;  // `!pattern` re-includes a path
+}
+
+interface CompiledRule {
+  rule: IgnoreRule;
+  absolutePath?: string;  // Set for host paths outside the home directory
+  matcher?: Ignore;
+}
+
+/**
+ * Parse .clawignore content into rules, keeping line numbers so callers
+ * can report which line hid a path.
+ */
+export function parseIgnoreRules(content: string, source: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  const lines = content.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    // Skip empty lines and comments
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    rules.push({
+      pattern: trimmed,
+      source,
+      line: i + 1,
+      negated: trimmed.startsWith('!'),
+    });
+  }
+
+  return rules;
+}
+
+export async function readIgnoreRules(clawignorePath: string): Promise<IgnoreRule[]> {
+  try {
+    const content = await readFile(clawignorePath, 'utf-8');
+    return parseIgnoreRules(content, clawignorePath);
+  } catch {
+    return []; // No .clawignore yet
+  }
+}
+
+/**
+ * Patterns are resolved against the home directory, because the container
+ * workspace mirrors the layout of home. Generated files list absolute host
+ * paths, and `~/` is accepted as shorthand, so both are turned into
+ * anchored patterns first.
+ */
+function compileRule(rule: IgnoreRule, home: string): CompiledRule {
+  let body = rule.negated ? rule.pattern.slice(1) : rule.pattern;
+
+  if (body.startsWith('~/')) {
+    body = '/' + body.slice(2);
+  } else if (body === home || body.startsWith(home + '/')) {
+    body = '/' + body.slice(home.length + 1);
+  } else if (isAbsolute(body) && body.length > 1 && isHostPathOutsideHome(body)) {
+    return { rule, absolutePath: body.replace(/\/+$/, '') };
+  }
+
+  if (body === '/') {
+    return { rule }; // Hiding all of home can't be expressed as a mount rule
+  }
+
+  return { rule, matcher: ignore().add(body) };
+}
+
+// `/secrets` in a .clawignore is an anchored pattern, but `/Volumes/work`
+// is a host path. Anything under a top-level system directory is a path.
+function isHostPathOutsideHome(body: string): boolean {
+  return /^\/(Users|home|Volumes|mnt|media|opt|private|tmp|var|srv)\//.test(body + '/');
+}
+
+function ruleMatches(compiled: CompiledRule, hostPath: string, isDirectory: boolean, home: string): boolean {
+  if (compiled.absolutePath) {
+    return hostPath === compiled.absolutePath || hostPath.startsWith(compiled.absolutePath + '/');
+  }
+
+  if (!compiled.matcher) return false;
+
+  const relativePath = relative(home, hostPath);
+  if (!relativePath || relativePath.startsWith('..') || isAbsolute(relativePath)) {
+    return false;
+  }
+
+  return compiled.matcher.ignores(isDirectory ? relativePath + '/' : relativePath);
+}
+
+export interface IgnoreMatcher {
+  /** The rule that decides the path's fate (last match wins), or null if none match. */
+  match(hostPath: string, isDirectory: boolean): IgnoreRule | null;
+  /** True when the path is hidden by a rule. */
+  ignores(hostPath: string, isDirectory: boolean): boolean;
+}
+
+export function createIgnoreMatcher(rules: IgnoreRule[], home: string = homedir()): IgnoreMatcher {
+  const compiled = rules.map(rule => compileRule(rule, home));
+
+  const match = (hostPath: string, isDirectory: boolean): IgnoreRule | null => {
+    let decided: IgnoreRule | null = null;
+    for (const rule of compiled) {
+      if (ruleMatches(rule, hostPath, isDirectory, home)) {
+        decided = rule.rule;
+      }
+    }
+    return decided;
+  };
+
+  return {
+    match,
+    ignores: (hostPath, isDirectory) => {
+      const rule = match(hostPath, isDirectory);
+      return rule !== null && !rule.negated;
+    },
+  };
+}
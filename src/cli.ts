@@ -0,0 +1,222 @@
+import pc from 'picocolors';
+import { setDryRun } from './dry-run.js';
+import { setScanCacheEnabled } from './scan-cache.js';
+import { setGlobalOptions, log } from './output.js';
+import { getVersion } from './version.js';
+import { EXIT_OK, EXIT_USAGE } from './exit-codes.js';
+
+interface Command {
+  name: string;
+  usage: string;
+  summary: string;
+  run: () => Promise<(args: string[]) => Promise<number>>;
+}
+
+// Loaded on demand, so `clawignore scan` doesn't pull in the wizard
+const COMMANDS: Command[] = [
+  {
+    name: 'setup',
+    usage: 'setup [--baseline file]',
+    summary: 'Interactive wizard: pick folders, hide files, configure Docker (default)',
+    run: async () => (await import('./setup.js')).runSetup,
+  },
+  {
+    name: 'scan',
+    usage: 'scan [dir] [--format table|json|sarif] [--fail-on critical|high|medium|low|info] [-o file] [--entropy-base64 bits] [--entropy-hex bits] [--max-depth n] [--max-file-size size] [--no-archives] [--archive-depth n] [--git-history] [--show-allowed] [--baseline file [--update-baseline]]',
+    summary: 'Report sensitive files without changing anything',
+    run: async () => (await import('./scan-command.js')).runScan,
+  },
+  {
+    name: 'status',
+    usage: 'status [--runtime bin]',
+    summary: 'Compare .clawignore, docker-compose.yml and the running container',
+    run: async () => (await import('./status.js')).runStatus,
+  },
+  {
+    name: 'add',
+    usage: 'add <pattern>... [--restart]',
+    summary: 'Add patterns to .clawignore and regenerate docker-compose.yml',
+    run: async () => (await import('./patterns.js')).runAdd,
+  },
+  {
+    name: 'remove',
+    usage: 'remove <pattern>... [--restart]',
+    summary: 'Remove patterns from .clawignore and regenerate docker-compose.yml',
+    run: async () => (await import('./patterns.js')).runRemove,
+  },
+  {
+    name: 'apply',
+    usage: 'apply --mount <dir>... [--ignore <pattern>...] [--accept-detected] [--restart] [--yes]',
+    summary: 'Non-interactive setup from flags',
+    run: async () => (await import('./apply.js')).runApply,
+  },
+  {
+    name: 'regenerate',
+    usage: 'regenerate [--restart]',
+    summary: 'Rebuild docker-compose.yml after editing .clawignore by hand',
+    run: async () => (await import('./regenerate.js')).runRegenerate,
+  },
+  {
+    name: 'check-ignore',
+    usage: 'check-ignore [-v] <path>...',
+    summary: 'Explain why a path is hidden from or visible to the container',
+    run: async () => (await import('./check-ignore.js')).runCheckIgnore,
+  },
+  {
+    name: 'verify',
+    usage: 'verify [--runtime bin] [--no-scan]',
+    summary: 'Check from inside the container that hidden paths are absent',
+    run: async () => (await import('./verify.js')).runVerify,
+  },
+  {
+    name: 'watch',
+    usage: 'watch [dir...] [--policy alert|log|append] [--log-file file] [--poll seconds]',
+    summary: 'Flag new sensitive files in mounted folders',
+    run: async () => (await import('./watch.js')).runWatch,
+  },
+  {
+    name: 'rollback',
+    usage: 'rollback [--list] [--to id]',
+    summary: 'Restore files from a backup taken before they were overwritten',
+    run: async () => (await import('./backup.js')).runRollback,
+  },
+];
+
+interface ParsedGlobals {
+  root?: string;
+  json: boolean;
+  quiet: boolean;
+  dryRun: boolean;
+  noCache: boolean;
+  help: boolean;
+  version: boolean;
+  rest: string[];
+}
+
+/**
+ * Global options may appear anywhere before `--`; everything else is left
+ * for the command's own parser.
+ */
+function parseGlobals(argv: string[]): ParsedGlobals {
+  const parsed: ParsedGlobals = {
+    json: false, quiet: false, dryRun: false, noCache: false, help: false, version: false, rest: [],
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '--') {
+      parsed.rest.push(...argv.slice(i));
+      break;
+    }
+
+    if (arg === '--root') {
+      if (i + 1 >= argv.length) throw new Error('--root needs a directory');
+      parsed.root = argv[++i];
+    } else if (arg.startsWith('--root=')) {
+      parsed.root = arg.slice('--root='.length);
+    } else if (arg === '--json') {
+      parsed.json = true;
+    } else if (arg === '--quiet' || arg === '-q') {
+      parsed.quiet = true;
+    } else if (arg === '--dry-run') {
+      parsed.dryRun = true;
+    } else if (arg === '--no-cache') {
+      parsed.noCache = true;
+    } else if (arg === '--help' || arg === '-h') {
+      parsed.help = true;
+    } else if (arg === '--version' || arg === '-V') {
+      parsed.version = true;
+    } else if (arg === '--no-color') {
+      // Read by picocolors itself
+    } else {
+      parsed.rest.push(arg);
+    }
+  }
+
+  return parsed;
+}
+
+function printHelp(command?: Command) {
+  if (command) {
+    console.log(`${pc.bold('Usage:')} clawignore ${command.usage} [global options]`);
+    console.log('');
+    console.log(`  ${command.summary}`);
+    return;
+  }
+
+  const width = Math.max(...COMMANDS.map(c => c.name.length)) + 2;
+
+  console.log(`${pc.bold('clawignore')} ${pc.dim(`v${getVersion()}`)} - hide files from OpenClaw`);
+  console.log('');
+  console.log(`${pc.bold('Usage:')} clawignore [command] [options]`);
+  console.log('');
+  console.log(pc.bold('Commands:'));
+  for (const command of COMMANDS) {
+    console.log(`  ${command.name.padEnd(width)}${command.summary}`);
+  }
+  console.log('');
+  console.log(pc.bold('Global options:'));
+  console.log('  --root <dir>   OpenClaw directory (default: ~/.openclaw)');
+  console.log('  --json         Machine-readable output on stdout');
+  console.log('  -q, --quiet    Only print warnings, errors and results');
+  console.log('  --no-color     Disable colors (NO_COLOR is honoured too)');
+  console.log('  --dry-run      Show what would change without writing anything');
+  console.log('  --no-cache     Re-read every file instead of using the scan cache');
+  console.log('  -h, --help     Show help, or help for a command');
+  console.log('  -V, --version  Show the version');
+  console.log('');
+  console.log(pc.bold('Exit codes:'));
+  console.log('  0  success');
+  console.log('  1  error');
+  console.log('  2  usage error (unknown command or option)');
+  console.log('  3  problems found (scan --fail-on, status drift, verify failure)');
+  console.log(pc.dim('  check-ignore follows git: 0 if any path is hidden, 1 if none is'));
+}
+
+/**
+ * Entry point: parse global options, then hand the rest of argv to the
+ * command. Without a command the setup wizard runs.
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  let globals: ParsedGlobals;
+  try {
+    globals = parseGlobals(argv);
+  } catch (err) {
+    log.error(err instanceof Error ? err.message : String(err));
+    return EXIT_USAGE;
+  }
+
+  setGlobalOptions({ root: globals.root, json: globals.json, quiet: globals.quiet });
+
+  if (globals.version) {
+    console.log(getVersion());
+    return EXIT_OK;
+  }
+
+  const [name, ...args] = globals.rest;
+  const command = COMMANDS.find(c => c.name === (name ?? 'setup'));
+
+  if (!command) {
+    log.error(`Unknown command "${name}"`);
+    printHelp();
+    return EXIT_USAGE;
+  }
+
+  if (globals.help) {
+    printHelp(name ? command : undefined);
+    return EXIT_OK;
+  }
+
+  if (globals.noCache) {
+    setScanCacheEnabled(false);
+  }
+
+  if (globals.dryRun) {
+    setDryRun(true);
+    log.warn('Dry run: showing the changes without writing files or running commands');
+  }
+
+  const run = await command.run();
+  return run(args);
+}
@@ -0,0 +1,144 @@
+import { SensitiveFile } from './scanner.js';
+
+export interface SecretDetector {
+  id: string;
+  name: string;
+  category: SensitiveFile['category'];
+  pattern: RegExp;
+  visiblePrefix: number;  // Characters of a match that are safe to show
+  confidence?: 'high' | 'medium';  // Set by rule packs; built-ins are high
+}
+
+export interface SecretFinding {
+  ruleId: string;
+  name: string;
+  line: number;      // 1-based
+  column: number;    // 1-based
+  preview: string;   // The line with the secret redacted
+  entropy?: number;  // Bits per character, for entropy-based findings
+}
+
+// Anchored on prefixes the providers document, so a match is rarely a
+// false positive. More specific patterns come first: the first detector
+// to claim a position wins.
+export const SECRET_DETECTORS: SecretDetector[] = [
+  {
+    id: 'private-key-block',
+    name: 'Private key',
+    category: 'keys',
+    pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g,
+    visiblePrefix: Infinity, // The header itself is not secret
+  },
+  {
+    id: 'aws-access-key-id',
+    name: 'AWS access key ID',
+    category: 'credentials',
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+    visiblePrefix: 4,
+  },
+  {
+    id: 'github-token',
+    name: 'GitHub token',
+    category: 'credentials',
+    pattern: /\bgh[pousr]_[A-Za-z0-9]{36,255}\b/g,
+    visiblePrefix: 4,
+  },
+  {
+    id: 'github-fine-grained-token',
+    name: 'GitHub fine-grained token',
+    category: 'credentials',
+    pattern: /\bgithub_pat_[A-Za-z0-9_]{60,255}\b/g,
+    visiblePrefix: 11,
+  },
+  {
+    id: 'slack-token',
+    name: 'Slack token',
+    category: 'credentials',
+    pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,250}\b/g,
+    visiblePrefix: 5,
+  },
+  {
+    id: 'stripe-live-key',
+    name: 'Stripe live key',
+    category: 'secrets',
+    pattern: /\b[rs]k_live_[A-Za-z0-9]{24,247}\b/g,
+    visiblePrefix: 8,
+  },
+  {
+    id: 'anthropic-api-key',
+    name: 'Anthropic API key',
+    category: 'secrets',
+    pattern: /\bsk-ant-(?:api|admin)\d{2}-[A-Za-z0-9_-]{80,120}/g,
+    visiblePrefix: 7,
+  },
+  {
+    id: 'openai-api-key',
+    name: 'OpenAI API key',
+    category: 'secrets',
+    pattern: /\bsk-(?:(?:proj|svcacct|admin)-[A-Za-z0-9_-]{40,250}|[A-Za-z0-9]{20}T3BlbkFJ[A-Za-z0-9]{20})/g,
+    visiblePrefix: 3,
+  },
+  {
+    id: 'jwt',
+    name: 'JSON Web Token',
+    category: 'credentials',
+    pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+    visiblePrefix: 3,
+  },
+];
+
+// A file full of tokens (a test fixture, a dump) doesn't need all of them listed
+export const MAX_FINDINGS = 50;
+const MAX_PREVIEW_LENGTH = 100;
+
+export function redactSecret(secret: string, visiblePrefix: number): string {
+  if (secret.length <= visiblePrefix) return secret;
+  const hidden = secret.length - visiblePrefix;
+  return secret.slice(0, visiblePrefix) + '*'.repeat(Math.min(hidden, 12));
+}
+
+export function buildPreview(line: string, start: number, secret: string, redacted: string): string {
+  const preview = (line.slice(0, start) + redacted + line.slice(start + secret.length)).trim();
+  return preview.length > MAX_PREVIEW_LENGTH ? preview.slice(0, MAX_PREVIEW_LENGTH - 1) + '…' : preview;
+}
+
+/**
+ * Run every detector over `content`, line by line. Matches are never
+ * returned in clear text, only as a redacted preview.
+ */
+export function detectSecrets(content: string, detectors: SecretDetector[] = SECRET_DETECTORS): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+  const lines = content.split('\n');
+
+  for (const [index, line] of lines.entries()) {
+    const claimed: [number, number][] = [];
+
+    for (const detector of detectors) {
+      for (const match of line.matchAll(detector.pattern)) {
+        const start = match.index ?? 0;
+        const end = start + match[0].length;
+        if (claimed.some(([s, e]) => start < e && end > s)) continue;
+        claimed.push([start, end]);
+
+        findings.push({
+          ruleId: detector.id,
+          name: detector.name,
+          line: index + 1,
+          column: start + 1,
+          preview: buildPreview(line, start, match[0], redactSecret(match[0], detector.visiblePrefix)),
+        });
+        if (findings.length >= MAX_FINDINGS) return findings.sort(byPosition);
+      }
+    }
+  }
+
+  return findings.sort(byPosition);
+}
+
+function byPosition(a: SecretFinding, b: SecretFinding): number {
+  return a.line - b.line || a.column - b.column;
+}
+
+export function getDetector(id: string): SecretDetector | undefined {
+  return SECRET_DETECTORS.find(d => d.id === id);
+}
@@ -1,14 +1,33 @@
-import { writeFile, readFile, stat } from 'fs/promises';
+import { readFile, stat, readdir } from 'fs/promises';
+import { createHash } from 'crypto';
 import { join, basename } from 'path';
 import { homedir } from 'os';
+import { IgnoreMatcher, createIgnoreMatcher, readIgnoreRules } from './clawignore.js';
+import {
+  writeManifest,
+  readManifest,
+  getManifestPath,
+  DEFAULT_GATEWAY_OPTIONS,
+  GatewayOptions,
+  MANIFEST_VERSION,
+} from './manifest.js';
+import { snapshotFiles } from './backup.js';
+import { writeOutputFile } from './dry-run.js';
 
 const DOCKER_IMAGE = 'alpine/openclaw:latest';
 
+const CHECKSUM_PREFIX = '# clawignore-checksum: ';
+export const CONFIG_HASH_LABEL = 'clawignore.config-hash';
+
 interface DockerComposeConfig {
   openclawRoot: string;
   mountPaths: string[];      // Specific paths to mount (can be any depth)
   ignoredPaths: string[];    // Paths to NOT mount (for .clawignore)
+  mountRoots?: string[];     // Folders the mounts were planned from (defaults to mountPaths)
   gatewayToken?: string;
+  image?: string;
+  options?: Partial<GatewayOptions>;
+  keepClawignore?: boolean;  // Leave a hand-edited .clawignore as it is
 }
 
 export async function generateDockerCompose(config: DockerComposeConfig): Promise<{
@@ -16,9 +35,12 @@ export async function generateDockerCompose(config: DockerComposeConfig): Promis
   envPath: string;
   clawignorePath: string;
   dockerConfigPath: string;
+  manifestPath: string;
 }> {
   const { openclawRoot, mountPaths, ignoredPaths } = config;
   const home = homedir();
+  const image = config.image || DOCKER_IMAGE;
+  const options = { ...DEFAULT_GATEWAY_OPTIONS, ...config.options };
 
   // Generate a gateway token if not provided
   const gatewayToken = config.gatewayToken || generateToken();
@@ -27,16 +49,16 @@ export async function generateDockerCompose(config: DockerComposeConfig): Promis
   const volumeMounts = await generateVolumeMounts(openclawRoot, mountPaths);
 
   // Generate docker-compose.yml content
-  const composeContent = generateComposeYaml(volumeMounts);
+  const composeContent = addComposeChecksum(generateComposeYaml(volumeMounts, image));
 
   // Generate .env content
-  const envContent = generateEnvFile(openclawRoot, gatewayToken);
+  const envContent = generateEnvFile(openclawRoot, gatewayToken, options);
 
   // Generate .clawignore content
   const clawignoreContent = generateClawignore(ignoredPaths);
 
   // Generate Docker-specific config (replaces host paths with container paths)
-  const dockerConfigContent = await generateDockerConfig(home);
+  const dockerConfigContent = await generateDockerConfig(openclawRoot, home);
 
   // Write files
   const composePath = join(openclawRoot, 'docker-compose.yml');
@@ -44,24 +66,43 @@ export async function generateDockerCompose(config: DockerComposeConfig): Promis
   const clawignorePath = join(openclawRoot, '.clawignore');
   const dockerConfigPath = join(openclawRoot, 'openclaw.docker.json');
 
-  await writeFile(composePath, composeContent);
-  await writeFile(envPath, envContent);
-  await writeFile(clawignorePath, clawignoreContent);
-  await writeFile(dockerConfigPath, dockerConfigContent);
+  const manifestPath = getManifestPath(openclawRoot);
+  await snapshotFiles(
+    [composePath, envPath, clawignorePath, dockerConfigPath, manifestPath],
+    'generate docker-compose.yml'
+  );
 
-  return { composePath, envPath, clawignorePath, dockerConfigPath };
+  await writeOutputFile(composePath, composeContent);
+  await writeOutputFile(envPath, envContent);
+  if (!config.keepClawignore) {
+    await writeOutputFile(clawignorePath, clawignoreContent);
+  }
+  await writeOutputFile(dockerConfigPath, dockerConfigContent);
+
+  // Record what was generated so it can be rebuilt without the browser
+  await writeManifest(openclawRoot, {
+    version: MANIFEST_VERSION,
+    generatedAt: new Date().toISOString(),
+    image,
+    mountRoots: config.mountRoots ?? mountPaths,
+    mountPaths,
+    ignoredPaths,
+    options,
+  });
+
+  return { composePath, envPath, clawignorePath, dockerConfigPath, manifestPath };
 }
 
-async function generateDockerConfig(home: string): Promise<string> {
-  const configPath = join(home, '.openclaw', 'openclaw.json');
+async function generateDockerConfig(openclawRoot: string, home: string): Promise<string> {
+  const configPath = join(openclawRoot, 'openclaw.json');
 
   try {
     const content = await readFile(configPath, 'utf-8');
-    // Replace all host paths with container paths
-    const dockerContent = content.replace(
-      new RegExp(home.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g'),
-      '/home/node'
-    );
+    // Replace all host paths with container paths, the OpenClaw folder
+    // first since it need not be under home
+    const dockerContent = content
+      .replace(new RegExp(escapeRegExp(openclawRoot), 'g'), '/home/node/.openclaw')
+      .replace(new RegExp(escapeRegExp(home), 'g'), '/home/node');
     return dockerContent;
   } catch {
     // If config doesn't exist, return minimal config
@@ -75,6 +116,10 @@ async function generateDockerConfig(home: string): Promise<string> {
   }
 }
 
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
 function generateToken(): string {
   const chars = 'abcdef0123456789';
   let token = '';
@@ -89,26 +134,29 @@ async function generateVolumeMounts(openclawRoot: string, mountPaths: string[]):
   const home = homedir();
 
   // Mount Docker-specific config (with container paths instead of host paths)
-  mounts.push(`${home}/.openclaw/openclaw.docker.json:/home/node/.openclaw/openclaw.json:ro`);
-  mounts.push(`${home}/.openclaw/credentials:/home/node/.openclaw/credentials:ro`);
+  mounts.push(`${openclawRoot}/openclaw.docker.json:/home/node/.openclaw/openclaw.json:ro`);
+  mounts.push(`${openclawRoot}/credentials:/home/node/.openclaw/credentials:ro`);
 
   // Mount OpenClaw runtime directories (read-write)
   const runtimeDirs = ['memory', 'logs', 'canvas', 'media', 'cron', 'agents', 'subagents', 'telegram', 'delivery-queue', 'devices', 'identity'];
   for (const dir of runtimeDirs) {
-    mounts.push(`${home}/.openclaw/${dir}:/home/node/.openclaw/${dir}`);
+    mounts.push(`${openclawRoot}/${dir}:/home/node/.openclaw/${dir}`);
   }
 
   // Mount .clawignore
-  mounts.push(`${home}/.openclaw/.clawignore:/home/node/.openclaw/.clawignore:ro`);
+  mounts.push(`${openclawRoot}/.clawignore:/home/node/.openclaw/.clawignore:ro`);
 
   // Mount the entire workspace directory (so OpenClaw can create subdirectories)
-  mounts.push(`${home}/.openclaw/workspace:/home/node/.openclaw/workspace`);
+  mounts.push(`${openclawRoot}/workspace:/home/node/.openclaw/workspace`);
 
   // Mount each selected path into the workspace, preserving relative path from home
   // Only mount directories - VirtioFS on macOS cannot overlay files on directory mounts
   for (const sourcePath of mountPaths) {
     // Skip .openclaw directory - it's already mounted separately and would conflict
-    if (sourcePath.includes('/.openclaw') || sourcePath.endsWith('.openclaw')) {
+    if (
+      sourcePath.includes('/.openclaw') || sourcePath.endsWith('.openclaw') ||
+      sourcePath === openclawRoot || sourcePath.startsWith(openclawRoot + '/')
+    ) {
       continue;
     }
 
@@ -135,8 +183,106 @@ async function generateVolumeMounts(openclawRoot: string, mountPaths: string[]):
   return mounts;
 }
 
-function generateComposeYaml(volumeMounts: string[]): string {
+/**
+ * Expand mount roots so nothing hidden by .clawignore lands inside a bind
+ * mount. A directory that contains an ignored entry is replaced by its
+ * non-ignored subdirectories, since only directories can be mounted.
+ */
+export async function planMountPaths(mountRoots: string[], matcher: IgnoreMatcher): Promise<string[]> {
+  const mounts: string[] = [];
+
+  for (const root of mountRoots) {
+    if (matcher.ignores(root, true)) continue;
+    if (await collectCleanMounts(root, matcher, mounts)) {
+      mounts.push(root);
+    }
+  }
+
+  return [...new Set(mounts)];
+}
+
+// Returns true when nothing below `dir` is ignored, so the caller can mount
+// it whole. Otherwise the clean subdirectories are pushed onto `mounts`.
+async function collectCleanMounts(dir: string, matcher: IgnoreMatcher, mounts: string[]): Promise<boolean> {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return true; // Can't look inside, mount as selected
+  }
+
+  let clean = true;
+  const childMounts: string[] = [];
+
+  for (const entry of entries) {
+    const fullPath = join(dir, entry.name);
+    const isDirectory = entry.isDirectory();
+
+    if (matcher.ignores(fullPath, isDirectory)) {
+      clean = false;
+      continue;
+    }
+
+    if (isDirectory) {
+      const nested: string[] = [];
+      if (await collectCleanMounts(fullPath, matcher, nested)) {
+        childMounts.push(fullPath);
+      } else {
+        clean = false;
+        childMounts.push(...nested);
+      }
+    }
+  }
+
+  if (!clean) {
+    mounts.push(...childMounts);
+  }
+  return clean;
+}
+
+/**
+ * Hash of what the container is built from. It is stored as a label, so a
+ * running container can be traced back to the compose file that made it.
+ */
+export function computeConfigHash(image: string, volumeMounts: string[]): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ image, volumes: volumeMounts }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+function stripChecksumLine(content: string): string {
+  return content
+    .split('\n')
+    .filter(line => !line.startsWith(CHECKSUM_PREFIX))
+    .join('\n');
+}
+
+function checksum(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+// The checksum covers every other line, so hand edits can be detected later
+function addComposeChecksum(content: string): string {
+  const [firstLine, ...rest] = content.split('\n');
+  return [firstLine, CHECKSUM_PREFIX + checksum(content), ...rest].join('\n');
+}
+
+/**
+ * Returns 'unknown' for compose files without a checksum line, e.g. ones
+ * written by hand or by an older clawignore.
+ */
+export function verifyComposeChecksum(content: string): 'ok' | 'modified' | 'unknown' {
+  const line = content.split('\n').find(l => l.startsWith(CHECKSUM_PREFIX));
+  if (!line) return 'unknown';
+
+  const expected = line.slice(CHECKSUM_PREFIX.length).trim();
+  return checksum(stripChecksumLine(content)) === expected ? 'ok' : 'modified';
+}
+
+function generateComposeYaml(volumeMounts: string[], image: string): string {
   const volumesYaml = volumeMounts.map(m => `      - "${m}"`).join('\n');
+  const configHash = computeConfigHash(image, volumeMounts);
 
   return `# Generated by clawignore
 # https://github.com/wuyuwenj/clawignore
@@ -146,8 +292,10 @@ function generateComposeYaml(volumeMounts: string[]): string {
 
 services:
   openclaw-gateway:
-    image: ${DOCKER_IMAGE}
+    image: ${image}
     container_name: openclaw-gateway
+    labels:
+      ${CONFIG_HASH_LABEL}: "${configHash}"
     environment:
       HOME: /home/node
       TERM: xterm-256color
@@ -172,8 +320,10 @@ ${volumesYaml}
       ]
 
   openclaw-cli:
-    image: ${DOCKER_IMAGE}
+    image: ${image}
     container_name: openclaw-cli
+    labels:
+      ${CONFIG_HASH_LABEL}: "${configHash}"
     environment:
       HOME: /home/node
       TERM: xterm-256color
@@ -191,16 +341,15 @@ ${volumesYaml}
 `;
 }
 
-function generateEnvFile(openclawRoot: string, gatewayToken: string): string {
-  const home = homedir();
+function generateEnvFile(openclawRoot: string, gatewayToken: string, options: GatewayOptions): string {
   return `# Generated by clawignore
 # OpenClaw Docker configuration
 
-OPENCLAW_CONFIG_DIR=${home}/.openclaw
-OPENCLAW_WORKSPACE_DIR=${home}/.openclaw/workspace
-OPENCLAW_GATEWAY_PORT=18789
-OPENCLAW_BRIDGE_PORT=18790
-OPENCLAW_GATEWAY_BIND=lan
+OPENCLAW_CONFIG_DIR=${openclawRoot}
+OPENCLAW_WORKSPACE_DIR=${openclawRoot}/workspace
+OPENCLAW_GATEWAY_PORT=${options.gatewayPort}
+OPENCLAW_BRIDGE_PORT=${options.bridgePort}
+OPENCLAW_GATEWAY_BIND=${options.gatewayBind}
 OPENCLAW_GATEWAY_TOKEN=${gatewayToken}
 `;
 }
@@ -220,20 +369,21 @@ function generateClawignore(ignoredPaths: string[]): string {
   return lines.join('\n') + '\n';
 }
 
+/**
+ * Rebuild docker-compose.yml from the manifest after .clawignore was edited
+ * by hand. The edited .clawignore is kept as it is. Returns false if there
+ * is no manifest to rebuild from.
+ */
 export async function regenerateDockerCompose(openclawRoot: string): Promise<boolean> {
+  const manifest = await readManifest(openclawRoot);
+  if (!manifest) {
+    return false;
+  }
+
   // Read existing .clawignore
   const clawignorePath = join(openclawRoot, '.clawignore');
-  let ignoredPaths: string[] = [];
-
-  try {
-    const content = await readFile(clawignorePath, 'utf-8');
-    ignoredPaths = content
-      .split('\n')
-      .map(line => line.trim())
-      .filter(line => line && !line.startsWith('#'));
-  } catch {
-    // No .clawignore file
-  }
+  const rules = await readIgnoreRules(clawignorePath);
+  const ignoredPaths = rules.map(rule => rule.pattern);
 
   // Read existing token from .env if present
   let existingToken: string | undefined;
@@ -247,7 +397,18 @@ export async function regenerateDockerCompose(openclawRoot: string): Promise<boo
     // No existing .env
   }
 
-  // For regeneration, we need to know what paths were available
-  // This is tricky - for now just return false to indicate manual update needed
-  return false;
+  const mountPaths = await planMountPaths(manifest.mountRoots, createIgnoreMatcher(rules));
+
+  await generateDockerCompose({
+    openclawRoot,
+    mountPaths,
+    ignoredPaths,
+    mountRoots: manifest.mountRoots,
+    gatewayToken: existingToken,
+    image: manifest.image,
+    options: manifest.options,
+    keepClawignore: true,
+  });
+
+  return true;
 }
@@ -1,11 +1,14 @@
-import { exec } from 'child_process';
+import { exec, execFile } from 'child_process';
 import { promisify } from 'util';
-import { readFile, writeFile, access } from 'fs/promises';
-import { join } from 'path';
+import { readFile, access, readdir, rm } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
 import { homedir } from 'os';
 import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { snapshotFiles } from './backup.js';
+import { isDryRun, writeOutputFile, reportCommand, reportRemoval } from './dry-run.js';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 export interface DockerStatus {
   installed: boolean;
@@ -160,13 +163,14 @@ export async function modifyDockerCompose(
     // The actual mount filtering happens at container startup
     // We'll create a .clawignore.json with the patterns for the entrypoint to read
     const clawignoreJson = join(workspace, '.clawignore.json');
-    await writeFile(
+    await snapshotFiles([composePath, clawignoreJson], 'update docker-compose.yml');
+    await writeOutputFile(
       clawignoreJson,
       JSON.stringify({ patterns: ignoredPatterns, version: 1 }, null, 2)
     );
 
     // Write the modified compose file
-    await writeFile(composePath, stringifyYaml(compose));
+    await writeOutputFile(composePath, stringifyYaml(compose));
 
     return true;
   } catch {
@@ -176,18 +180,22 @@ export async function modifyDockerCompose(
 
 export async function restartOpenClaw(): Promise<boolean> {
   const composePath = await findDockerComposeFile();
+  const composeDir = composePath && dirname(composePath);
+  const runtime = getContainerRuntime();
 
-  if (composePath) {
+  if (isDryRun()) {
+    reportCommand(composeDir ? `cd "${composeDir}" && ${runtime} compose restart` : `${runtime} restart openclaw-gateway`);
+    return true;
+  }
+
+  if (composeDir) {
     try {
-      // Get the directory containing docker-compose.yml
-      const composeDir = composePath.replace(/\/docker-compose\.(yml|yaml)$/, '');
-      await execAsync(`cd "${composeDir}" && docker compose restart`);
+      await execFileAsync(runtime, ['compose', 'restart'], { cwd: composeDir });
       return true;
     } catch {
       // Try older docker-compose command
       try {
-        const composeDir = composePath.replace(/\/docker-compose\.(yml|yaml)$/, '');
-        await execAsync(`cd "${composeDir}" && docker-compose restart`);
+        await execFileAsync('docker-compose', ['restart'], { cwd: composeDir });
         return true;
       } catch {
         return false;
@@ -197,11 +205,11 @@ export async function restartOpenClaw(): Promise<boolean> {
 
   // Try generic restart
   try {
-    await execAsync('docker restart openclaw-gateway');
+    await execFileAsync(runtime, ['restart', 'openclaw-gateway']);
     return true;
   } catch {
     try {
-      await execAsync('docker restart gateway');
+      await execFileAsync(runtime, ['restart', 'gateway']);
       return true;
     } catch {
       return false;
@@ -229,3 +237,285 @@ export async function getDockerSetupScriptPath(): Promise<string | null> {
 
   return null;
 }
+
+export function getSessionsDir(openclawRoot: string): string {
+  return join(openclawRoot, 'agents', 'main', 'sessions');
+}
+
+export async function hasOldSessions(openclawRoot: string): Promise<boolean> {
+  try {
+    const entries = await readdir(getSessionsDir(openclawRoot));
+    return entries.length > 0;
+  } catch {
+    return false;
+  }
+}
+
+export async function clearOldSessions(openclawRoot: string): Promise<boolean> {
+  if (isDryRun()) {
+    reportRemoval(getSessionsDir(openclawRoot));
+    return true;
+  }
+
+  try {
+    await rm(getSessionsDir(openclawRoot), { recursive: true, force: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// launchd labels used by the various OpenClaw releases
+const GATEWAY_SERVICES = [
+  'ai.openclaw.gateway',
+  'com.openclaw.gateway',
+  'com.clawdbot.gateway',
+  'bot.molt.gateway',
+];
+
+/**
+ * Stop any OpenClaw gateway running natively on the host, so it doesn't
+ * hold the ports the Docker container needs.
+ */
+export async function stopNativeOpenClaw(): Promise<{ stoppedService: boolean; killedProcesses: number }> {
+  const launchAgentDir = join(homedir(), 'Library', 'LaunchAgents');
+
+  if (isDryRun()) {
+    for (const service of GATEWAY_SERVICES) {
+      const plistPath = join(launchAgentDir, `${service}.plist`);
+      if (await access(plistPath).then(() => true, () => false)) {
+        reportCommand(`launchctl unload "${plistPath}"`);
+      }
+    }
+    for (const service of GATEWAY_SERVICES) {
+      reportCommand(`launchctl stop ${service}`);
+    }
+    return { stoppedService: false, killedProcesses: 0 };
+  }
+
+  // First, stop and unload any launchd services that would respawn the process
+  let stoppedService = false;
+  for (const service of GATEWAY_SERVICES) {
+    const plistPath = join(launchAgentDir, `${service}.plist`);
+    try {
+      // Check if plist exists and unload it
+      await execAsync(`test -f "${plistPath}" && launchctl unload "${plistPath}" 2>/dev/null`);
+      stoppedService = true;
+    } catch {
+      // Plist doesn't exist or already unloaded, continue
+    }
+  }
+
+  // Also try to stop by service name directly
+  for (const service of GATEWAY_SERVICES) {
+    await execAsync(`launchctl stop ${service} 2>/dev/null || true`).catch(() => undefined);
+  }
+
+  // Give launchd time to stop the service
+  if (stoppedService) {
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  }
+
+  // Now find and kill any remaining native openclaw-gateway processes
+  const { stdout: pids } = await execAsync(
+    `ps aux | grep -E "openclaw-gateway|openclaw serve|node.*openclaw" | grep -v grep | grep -v "docker" | awk '{print $2}'`
+  ).catch(() => ({ stdout: '' }));
+
+  const pidList = pids.trim().split('\n').filter(Boolean);
+  if (pidList.length > 0) {
+    for (const pid of pidList) {
+      await execAsync(`kill ${pid} 2>/dev/null || true`).catch(() => undefined);
+    }
+    // Give processes time to terminate
+    await new Promise(resolve => setTimeout(resolve, 1500));
+  }
+
+  return { stoppedService, killedProcesses: pidList.length };
+}
+
+/**
+ * Recreate the containers from the generated docker-compose.yml.
+ * Throws if `docker compose up` fails.
+ */
+export async function startOpenClaw(openclawRoot: string): Promise<void> {
+  const runtime = getContainerRuntime();
+  if (isDryRun()) {
+    reportCommand(`cd "${openclawRoot}" && ${runtime} compose down`);
+    reportCommand(`cd "${openclawRoot}" && ${runtime} compose up -d`);
+    return;
+  }
+
+  // Stop existing containers first to ensure clean restart with new config
+  await execFileAsync(runtime, ['compose', 'down'], { cwd: openclawRoot, timeout: 60000 }).catch(() => undefined);
+  await execFileAsync(runtime, ['compose', 'up', '-d'], { cwd: openclawRoot, timeout: 120000 });
+}
+
+/**
+ * The OpenClaw root holds docker-compose.yml, .env and .clawignore.
+ * It is the parent of the workspace directory.
+ */
+export async function resolveOpenClawRoot(explicitRoot?: string): Promise<string> {
+  if (explicitRoot) {
+    return resolve(explicitRoot);
+  }
+
+  const workspace = await getOpenClawWorkspace();
+  if (workspace) {
+    return workspace.replace(/\/workspace\/?$/, '');
+  }
+
+  return join(homedir(), '.openclaw');
+}
+
+export interface VolumeMount {
+  source: string;
+  target: string;
+  readOnly: boolean;
+  line?: number;  // 1-based line in the compose file, when it could be located
+}
+
+export const GATEWAY_SERVICE_NAMES = ['openclaw-gateway', 'gateway', 'openclaw', 'claw'];
+
+/**
+ * Parse `host:container[:mode]` short-syntax volumes and the long
+ * `{ type, source, target }` form.
+ */
+export function parseVolume(volume: unknown): VolumeMount | null {
+  if (typeof volume === 'string') {
+    const parts = volume.split(':');
+    if (parts.length < 2) return null; // Anonymous volume
+    const mode = parts.length > 2 ? parts[parts.length - 1] : '';
+    const target = parts.length > 2 ? parts[parts.length - 2] : parts[1];
+    const source = parts.slice(0, parts.length > 2 ? -2 : -1).join(':');
+    return { source, target, readOnly: mode.split(',').includes('ro') };
+  }
+
+  if (volume && typeof volume === 'object') {
+    const { source, target, read_only } = volume as Record<string, unknown>;
+    if (typeof source === 'string' && typeof target === 'string') {
+      return { source, target, readOnly: read_only === true };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read the bind mounts of the gateway service from a compose file.
+ * Returns null if the file or the service can't be found.
+ */
+export async function readComposeVolumes(composePath: string): Promise<VolumeMount[] | null> {
+  let content: string;
+  try {
+    content = await readFile(composePath, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  let compose;
+  try {
+    compose = parseYaml(content);
+  } catch {
+    return null;
+  }
+
+  const services = compose?.services || {};
+  const serviceName = GATEWAY_SERVICE_NAMES.find(name => services[name]);
+  if (!serviceName) {
+    return null;
+  }
+
+  const lines = content.split('\n');
+  const volumes: unknown[] = services[serviceName].volumes || [];
+  const mounts: VolumeMount[] = [];
+
+  for (const volume of volumes) {
+    const mount = parseVolume(volume);
+    if (!mount) continue;
+
+    if (typeof volume === 'string') {
+      const index = lines.findIndex(l => l.includes(volume));
+      if (index !== -1) mount.line = index + 1;
+    }
+    mounts.push(mount);
+  }
+
+  return mounts;
+}
+
+/**
+ * The container runtime binary. CLAWIGNORE_RUNTIME lets a compatible CLI
+ * (or a fake one in tests) stand in for Docker.
+ */
+export function getContainerRuntime(): string {
+  return process.env.CLAWIGNORE_RUNTIME || 'docker';
+}
+
+export interface ContainerInfo {
+  running: boolean;
+  mounts: VolumeMount[];
+  labels: Record<string, string>;
+}
+
+/**
+ * Read the live state of a container with `docker inspect`.
+ * Returns null if the runtime is unavailable or the container doesn't exist.
+ */
+export async function inspectContainer(
+  name: string,
+  runtime: string = getContainerRuntime()
+): Promise<ContainerInfo | null> {
+  let stdout: string;
+  try {
+    ({ stdout } = await execFileAsync(runtime, ['inspect', name], { timeout: 30000 }));
+  } catch {
+    return null;
+  }
+
+  try {
+    const [container] = JSON.parse(stdout);
+    if (!container) return null;
+
+    const mounts: VolumeMount[] = (container.Mounts || [])
+      .filter((m: { Type?: string }) => m.Type === 'bind')
+      .map((m: { Source: string; Destination: string; RW?: boolean }) => ({
+        // Docker Desktop on macOS reports host paths through its VM share
+        source: m.Source.replace(/^\/host_mnt(?=\/)/, ''),
+        target: m.Destination,
+        readOnly: m.RW === false,
+      }));
+
+    return {
+      running: container.State?.Running === true,
+      mounts,
+      labels: container.Config?.Labels || {},
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List everything below `dir` as the gateway container sees it, using
+ * `compose exec` on a running container or a throwaway `compose run`.
+ * Directories end in `/`. Throws if the runtime command fails.
+ */
+export async function listContainerFiles(
+  composePath: string,
+  dir: string,
+  running: boolean,
+  runtime: string = getContainerRuntime()
+): Promise<string[]> {
+  // `-type d -exec ... + -o -print` works with the busybox find in alpine images
+  const findArgs = ['find', dir, '-mindepth', '1', '-type', 'd', '-exec', 'printf', '%s/\\n', '{}', '+', '-o', '-print'];
+  const args = running
+    ? ['compose', '-f', composePath, 'exec', '-T', 'openclaw-gateway', ...findArgs]
+    : ['compose', '-f', composePath, 'run', '--rm', '--no-deps', '-T', '--entrypoint', findArgs[0], 'openclaw-gateway', ...findArgs.slice(1)];
+
+  const { stdout } = await execFileAsync(runtime, args, {
+    timeout: 300000,
+    maxBuffer: 512 * 1024 * 1024,
+  });
+
+  return stdout.split('\n').filter(Boolean);
+}
@@ -0,0 +1,151 @@
+import { inflate, InputType, ZlibOptions } from 'zlib';
+import { promisify } from 'util';
+import { DEFAULT_ARCHIVE_LIMITS, ExpansionBudget, listZipEntries } from './archives.js';
+
+const inflateAsync = promisify<InputType, ZlibOptions, Buffer>(inflate);
+
+// Office documents are zips, only their text parts are decompressed;
+// in PDFs only the page content streams are
+export const MAX_DOCUMENT_SIZE = 50 * 1024 * 1024;
+const MAX_EXPANDED_SIZE = 64 * 1024 * 1024;
+
+// The parts of each format that hold the text people typed. Document
+// properties hold sensitivity labels set by Office.
+const TEXT_PARTS: Record<string, RegExp> = {
+  docx: /^(word\/(document|header\d*|footer\d*|footnotes|endnotes|comments)|docProps\/(core|custom))\.xml$/,
+  xlsx: /^(xl\/(sharedStrings|worksheets\/sheet\d+)|docProps\/(core|custom))\.xml$/,
+  pptx: /^(ppt\/(slides\/slide|notesSlides\/notesSlide|slideMasters\/slideMaster)\d+|docProps\/(core|custom))\.xml$/,
+};
+
+export function isDocumentPath(name: string): boolean {
+  return documentFormat(name) !== undefined;
+}
+
+function documentFormat(name: string): string | undefined {
+  const extension = name.toLowerCase().split('.').pop() ?? '';
+  return extension in TEXT_PARTS || extension === 'pdf' ? extension : undefined;
+}
+
+/**
+ * The plain text of a docx, xlsx, pptx or PDF: paragraphs and rows on
+ * their own lines, markup dropped. null if it isn't a readable document.
+ */
+export async function extractDocumentText(name: string, data: Buffer | null): Promise<string | null> {
+  const format = documentFormat(name);
+  if (!format || !data) return null;
+
+  const budget = { remaining: MAX_EXPANDED_SIZE };
+  if (format === 'pdf') return extractPdfText(data, budget);
+
+  const parts: string[] = [];
+  try {
+    for (const entry of listZipEntries(data, DEFAULT_ARCHIVE_LIMITS, budget)) {
+      if (!TEXT_PARTS[format].test(entry.name)) continue;
+      const xml = await entry.read();
+      if (xml) parts.push(xmlToText(xml.toString('utf8')));
+    }
+  } catch {
+    return null; // Damaged zip
+  }
+
+  return parts.length > 0 ? parts.join('\n') : null;
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function xmlToText(xml: string): string {
+  return xml
+    // Paragraphs, rows and shared strings end a line; cells end a field
+    .replace(/<\/(w:p|a:p|row|si|property)>/g, '\n')
+    .replace(/<\/(c|w:tc)>/g, '\t')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(amp|lt|gt|quot|apos);/g, (_, name: string) => XML_ENTITIES[name])
+    .replace(/&#(x?)([0-9a-f]+);/gi, (_, hex: string, code: string) => String.fromCodePoint(parseInt(code, hex ? 16 : 10)));
+}
+
+// PDF: text is drawn by operators in the page content streams, such as
+// `(Hello) Tj` and `[(Hel) -20 (lo)] TJ`. Only fonts with a plain encoding
+// give readable strings, which covers most generated documents.
+const PDF_TEXT_OPERATOR = /\((?:\\[\s\S]|[^\\)])*\)\s*(?:Tj|'|")|\[((?:\((?:\\[\s\S]|[^\\)])*\)|[^\]])*)\]\s*TJ|\b(?:Td|TD|Tm|T\*|ET)\b/g;
+const PDF_STRING = /\(((?:\\[\s\S]|[^\\)])*)\)|(-?\d+(?:\.\d+)?)/g;
+// Kerning wider than this in a TJ array is a space between words
+const PDF_WORD_GAP = 200;
+
+async function extractPdfText(data: Buffer, budget: ExpansionBudget): Promise<string | null> {
+  if (data.toString('latin1', 0, 5) !== '%PDF-') return null;
+
+  const raw = data.toString('latin1');
+  const lines: string[] = [];
+  let position = 0;
+
+  while ((position = raw.indexOf('stream', position)) >= 0) {
+    if (raw.startsWith('end', position - 3)) {
+      position += 6; // endstream
+      continue;
+    }
+
+    // The stream's dictionary, between "<n> <gen> obj" and "stream"
+    const dictionary = raw.slice(Math.max(0, raw.lastIndexOf(' obj', position)), position);
+    let start = position + 6;
+    if (raw[start] === '\r') start++;
+    if (raw[start] === '\n') start++;
+    const end = raw.indexOf('endstream', start);
+    if (end < 0) break;
+    position = end + 9;
+
+    // Images, fonts, cross-reference and object streams hold no page text
+    if (/\/(Type|Subtype|Length1)\b/.test(dictionary)) continue;
+    let stream = data.subarray(start, end);
+
+    if (/\/FlateDecode/.test(dictionary)) {
+      if (budget.remaining <= 0) break;
+      try {
+        stream = await inflateAsync(stream, { maxOutputLength: budget.remaining });
+        budget.remaining -= stream.length;
+      } catch {
+        continue; // Corrupt, or over the budget
+      }
+    } else if (/\/Filter/.test(dictionary)) {
+      continue; // Other encodings aren't supported
+    }
+
+    lines.push(...pdfStreamText(stream.toString('latin1')));
+  }
+
+  return lines.length > 0 ? lines.join('\n') : null;
+}
+
+function pdfStreamText(content: string): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const match of content.matchAll(PDF_TEXT_OPERATOR)) {
+    const operator = match[0];
+    if (match[1] !== undefined) {
+      // TJ: strings with kerning between them
+      for (const [, string, gap] of match[1].matchAll(PDF_STRING)) {
+        if (string !== undefined) line += unescapePdfString(string);
+        else if (Number(gap) < -PDF_WORD_GAP) line += ' ';
+      }
+    } else if (operator.startsWith('(')) {
+      line += unescapePdfString(operator.slice(1, operator.lastIndexOf(')')));
+    } else if (line) {
+      // Moving to a new position usually starts a new line
+      lines.push(line);
+      line = '';
+    }
+  }
+  if (line) lines.push(line);
+
+  return lines;
+}
+
+const PDF_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+function unescapePdfString(value: string): string {
+  return value.replace(/\\([0-7]{1,3}|[\s\S])/g, (_, escaped: string) => {
+    if (/^[0-7]+$/.test(escaped)) return String.fromCharCode(parseInt(escaped, 8));
+    if (escaped === '\n' || escaped === '\r') return ''; // Line continuation
+    return PDF_ESCAPES[escaped] ?? escaped;
+  });
+}
@@ -0,0 +1,78 @@
+import pc from 'picocolors';
+import { createTwoFilesPatch } from 'diff';
+import { readFile, writeFile } from 'fs/promises';
+import { getGlobalOptions } from './output.js';
+
+let dryRun = false;
+
+/**
+ * In dry-run mode nothing is written, run or deleted. Each change is
+ * printed instead: a unified diff per file, and the commands and
+ * deletions that would have happened.
+ */
+export function setDryRun(enabled: boolean): void {
+  dryRun = enabled;
+}
+
+export function isDryRun(): boolean {
+  return dryRun;
+}
+
+// With --json, stdout holds only the result, so previews go to stderr
+function print(line: string) {
+  if (getGlobalOptions().json) console.error(line);
+  else console.log(line);
+}
+
+function printDiff(path: string, before: string | null, after: string) {
+  if (before === after) {
+    print(pc.dim(`  (unchanged) ${path}`));
+    return;
+  }
+
+  const patch = createTwoFilesPatch(
+    before === null ? '/dev/null' : `a${path}`,
+    `b${path}`,
+    before ?? '',
+    after,
+    undefined,
+    undefined,
+    { context: 3 }
+  );
+
+  for (const line of patch.split('\n')) {
+    if (line.startsWith('===')) continue;
+    if (line.startsWith('+++') || line.startsWith('---')) {
+      print(pc.bold(line));
+    } else if (line.startsWith('+')) {
+      print(pc.green(line));
+    } else if (line.startsWith('-')) {
+      print(pc.red(line));
+    } else if (line.startsWith('@@')) {
+      print(pc.cyan(line));
+    } else {
+      print(line);
+    }
+  }
+}
+
+/**
+ * Write a file, or in dry-run mode print the diff against what is there.
+ */
+export async function writeOutputFile(path: string, content: string): Promise<void> {
+  if (!dryRun) {
+    await writeFile(path, content);
+    return;
+  }
+
+  const before = await readFile(path, 'utf-8').catch(() => null);
+  printDiff(path, before, content);
+}
+
+export function reportCommand(command: string): void {
+  print(`${pc.yellow('would run:')} ${command}`);
+}
+
+export function reportRemoval(path: string): void {
+  print(`${pc.yellow('would delete:')} ${path}`);
+}
@@ -0,0 +1,101 @@
+export interface EntropyThresholds {
+  base64: number;     // Bits per character a base64 value needs to count
+  hex: number;        // Same for hex values, whose alphabet is smaller
+  minLength: number;  // Shorter values are never considered
+}
+
+export const DEFAULT_ENTROPY_THRESHOLDS: EntropyThresholds = {
+  base64: 4.2,
+  hex: 3.0,
+  minLength: 20,
+};
+
+// A value this far above its threshold is treated as a certain secret
+const HIGH_CONFIDENCE_MARGIN = 0.5;
+
+export interface EntropyCandidate {
+  key: string;
+  value: string;
+  kind: 'base64' | 'hex';
+  entropy: number;
+  line: number;      // 1-based
+  column: number;    // 1-based, start of the value
+}
+
+// KEY=value, KEY: value, "key": "value", key := value, key => value
+const ASSIGNMENT_PATTERN = /([A-Za-z_][A-Za-z0-9_.-]*)["']?\s*(?::=|=>|[:=])\s*["']?([A-Za-z0-9+/_=-]+)/g;
+
+// Keys whose values are hashes, not secrets
+const HASH_KEY_PATTERN = /integrity|checksum|hash|digest|etag|commit|revision|^rev$|resolved|sha\d*$/i;
+const SECRET_KEY_PATTERN = /key|token|secret|pass|auth|cred|private/i;
+// Subresource integrity values, as in package-lock.json
+const SRI_PATTERN = /^sha(?:1|256|384|512)-/;
+// At least one letter: long digit runs are ids and numbers, not hex secrets
+const HEX_PATTERN = /^(?=.*[a-fA-F])[0-9a-fA-F]+$/;
+
+/**
+ * Shannon entropy in bits per character.
+ */
+export function shannonEntropy(value: string): number {
+  if (!value) return 0;
+
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function isHashContext(key: string, value: string, kind: EntropyCandidate['kind']): boolean {
+  if (HASH_KEY_PATTERN.test(key) || SRI_PATTERN.test(value)) return true;
+  // Bare git SHA-1 and SHA-256 digests, unless the key says otherwise
+  return kind === 'hex' && (value.length === 40 || value.length === 64) && !SECRET_KEY_PATTERN.test(key);
+}
+
+/**
+ * Values in assignment contexts whose entropy is above the threshold for
+ * their alphabet. Values in known hash contexts are skipped.
+ */
+export function findHighEntropyStrings(
+  content: string,
+  thresholds: EntropyThresholds = DEFAULT_ENTROPY_THRESHOLDS
+): EntropyCandidate[] {
+  const candidates: EntropyCandidate[] = [];
+
+  for (const [index, line] of content.split('\n').entries()) {
+    for (const match of line.matchAll(ASSIGNMENT_PATTERN)) {
+      const [, key, value] = match;
+      if (value.length < thresholds.minLength) continue;
+
+      const kind = HEX_PATTERN.test(value) ? 'hex' : 'base64';
+      if (isHashContext(key, value, kind)) continue;
+
+      const entropy = shannonEntropy(value);
+      if (entropy < thresholds[kind]) continue;
+
+      candidates.push({
+        key,
+        value,
+        kind,
+        entropy,
+        line: index + 1,
+        column: (match.index ?? 0) + match[0].length - value.length + 1,
+      });
+    }
+  }
+
+  return candidates;
+}
+
+export function isHighConfidenceEntropy(
+  candidate: EntropyCandidate,
+  thresholds: EntropyThresholds = DEFAULT_ENTROPY_THRESHOLDS
+): boolean {
+  return candidate.entropy >= thresholds[candidate.kind] + HIGH_CONFIDENCE_MARGIN;
+}
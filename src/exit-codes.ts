@@ -0,0 +1,13 @@
+/**
+ * Exit codes shared by every command, so clawignore can be driven from
+ * scripts. `check-ignore` follows `git check-ignore` instead: 0 when a
+ * path is hidden, 1 when none are.
+ */
+export const EXIT_OK = 0;
+// Something went wrong: a missing file, a failed Docker command, ...
+export const EXIT_ERROR = 1;
+// Unknown command or option, or a missing argument
+export const EXIT_USAGE = 2;
+// The command ran, but found a problem: findings over the --fail-on level,
+// configuration drift, or a hidden path visible inside the container
+export const EXIT_PROBLEMS = 3;
@@ -0,0 +1,145 @@
+import { spawn } from 'child_process';
+import { createInterface } from 'readline';
+import { readdir } from 'fs/promises';
+import { join, relative } from 'path';
+
+export interface HistoryBlob {
+  sha: string;
+  commit: string;   // Oldest commit that introduced this content at `path`
+  path: string;     // Inside the repository
+}
+
+// Huge histories are sampled rather than read whole
+const MAX_BLOBS = 20_000;
+
+/**
+ * Repositories at or below `root`: folders with a `.git` directory, or a
+ * `.git` file for worktrees and submodules.
+ */
+export async function findGitRepositories(
+  root: string,
+  isExcluded: (relativePath: string) => boolean,
+  maxDepth = Infinity
+): Promise<string[]> {
+  const repositories: string[] = [];
+  let level = [root];
+
+  for (let depth = 0; level.length > 0 && depth <= maxDepth; depth++) {
+    const next: string[] = [];
+    for (const dir of level) {
+      const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+      if (entries.some(entry => entry.name === '.git' && (entry.isDirectory() || entry.isFile()))) {
+        repositories.push(dir);
+      }
+      for (const entry of entries) {
+        const path = join(dir, entry.name);
+        if (entry.isDirectory() && !isExcluded(relative(root, path))) next.push(path);
+      }
+    }
+    level = next;
+  }
+
+  return repositories;
+}
+
+function spawnGit(repository: string, args: string[]) {
+  const child = spawn('git', ['-C', repository, ...args], { stdio: ['pipe', 'pipe', 'ignore'] });
+  const done = new Promise<void>((resolve, reject) => {
+    child.on('error', err => {
+      reject((err as NodeJS.ErrnoException).code === 'ENOENT' ? new Error('Scanning git history needs git on the PATH') : err);
+    });
+    child.on('close', code => (code === 0 ? resolve() : reject(new Error(`git ${args[0]} failed in ${repository}`))));
+    // EPIPE when git exits before reading everything written to it
+    child.stdin.on('error', reject);
+  });
+  return { child, done };
+}
+
+/**
+ * Every blob added or modified in any commit on any ref, except the ones
+ * still checked out at HEAD (a normal scan sees those).
+ */
+export async function listHistoryBlobs(repository: string): Promise<HistoryBlob[]> {
+  const current = new Set<string>();
+  const tree = spawnGit(repository, ['ls-tree', '-r', '--full-tree', 'HEAD']);
+  for await (const line of createInterface({ input: tree.child.stdout })) {
+    // <mode> blob <sha>\t<path>
+    const match = /^\d+ blob ([0-9a-f]+)\t(.*)$/.exec(line);
+    if (match) current.add(`${match[1]}:${match[2]}`);
+  }
+  await tree.done.catch(() => undefined); // No HEAD yet
+
+  const blobs = new Map<string, HistoryBlob>();
+  const log = spawnGit(repository, [
+    'log', '--all', '--no-renames', '--diff-filter=AM', '--raw', '--no-abbrev', '--format=commit %H',
+  ]);
+
+  let commit = '';
+  for await (const line of createInterface({ input: log.child.stdout })) {
+    if (line.startsWith('commit ')) {
+      commit = line.slice(7);
+      continue;
+    }
+    // :<old mode> <new mode> <old sha> <new sha> <status>\t<path>
+    const match = /^:\d+ \d+ [0-9a-f]+ ([0-9a-f]+) [AM]\t(.*)$/.exec(line);
+    if (!match) continue;
+
+    const [, sha, path] = match;
+    const key = `${sha}:${path}`;
+    if (current.has(key)) continue;
+    // The log runs newest first, so the last commit seen introduced it
+    blobs.set(key, { sha, commit, path });
+  }
+  await log.done;
+
+  return [...blobs.values()].slice(0, MAX_BLOBS);
+}
+
+/**
+ * Read blob contents through one `git cat-file --batch`. Blobs larger than
+ * `maxSize` are skipped without being read into memory.
+ */
+export async function readBlobs(
+  repository: string,
+  shas: string[],
+  maxSize: number,
+  onBlob: (sha: string, content: Buffer) => Promise<void>
+): Promise<void> {
+  const unique = [...new Set(shas)];
+  if (unique.length === 0) return;
+
+  // Sizes first, so large blobs are never requested
+  const sizes = new Map<string, number>();
+  const check = spawnGit(repository, ['cat-file', '--batch-check']);
+  check.child.stdin.end(unique.join('\n') + '\n');
+  for await (const line of createInterface({ input: check.child.stdout })) {
+    const [sha, type, size] = line.split(' ');
+    if (type === 'blob') sizes.set(sha, Number(size));
+  }
+  await check.done;
+
+  const wanted = unique.filter(sha => (sizes.get(sha) ?? Infinity) <= maxSize);
+  if (wanted.length === 0) return;
+
+  const batch = spawnGit(repository, ['cat-file', '--batch']);
+  batch.child.stdin.end(wanted.join('\n') + '\n');
+
+  // Each blob is "<sha> blob <size>\n<content>\n"
+  let buffer = Buffer.alloc(0);
+  for await (const chunk of batch.child.stdout) {
+    buffer = Buffer.concat([buffer, chunk as Buffer]);
+
+    while (true) {
+      const newline = buffer.indexOf(0x0a);
+      if (newline < 0) break;
+      const [sha, , sizeText] = buffer.toString('utf8', 0, newline).split(' ');
+      const size = Number(sizeText);
+      if (buffer.length < newline + 1 + size + 1) break;
+
+      const content = buffer.subarray(newline + 1, newline + 1 + size);
+      buffer = buffer.subarray(newline + 1 + size + 1);
+      await onBlob(sha, content);
+    }
+  }
+  await batch.done;
+}
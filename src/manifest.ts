@@ -0,0 +1,84 @@
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { writeOutputFile } from './dry-run.js';
+
+export const MANIFEST_FILE = 'clawignore.lock.json';
+export const MANIFEST_VERSION = 1;
+
+export interface GatewayOptions {
+  gatewayPort: number;
+  bridgePort: number;
+  gatewayBind: string;
+}
+
+export const DEFAULT_GATEWAY_OPTIONS: GatewayOptions = {
+  gatewayPort: 18789,
+  bridgePort: 18790,
+  gatewayBind: 'lan',
+};
+
+/**
+ * Everything needed to rebuild docker-compose.yml without asking again.
+ * Written next to docker-compose.yml whenever it is generated.
+ */
+export interface MountManifest {
+  version: typeof MANIFEST_VERSION;
+  generatedAt: string;
+  image: string;
+  mountRoots: string[];    // Folders the user chose to expose
+  mountPaths: string[];    // What was actually mounted after hiding ignored paths
+  ignoredPaths: string[];
+  options: GatewayOptions;
+}
+
+export function getManifestPath(openclawRoot: string): string {
+  return join(openclawRoot, MANIFEST_FILE);
+}
+
+export async function writeManifest(openclawRoot: string, manifest: MountManifest): Promise<string> {
+  const manifestPath = getManifestPath(openclawRoot);
+  await writeOutputFile(manifestPath, JSON.stringify(manifest, null, 2) + '\n');
+  return manifestPath;
+}
+
+/**
+ * Returns null if there is no manifest yet. Throws if it exists but can't
+ * be used, so callers don't silently regenerate from bad data.
+ */
+export async function readManifest(openclawRoot: string): Promise<MountManifest | null> {
+  const manifestPath = getManifestPath(openclawRoot);
+
+  let content: string;
+  try {
+    content = await readFile(manifestPath, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  let data;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error(`${manifestPath} is not valid JSON`);
+  }
+
+  if (typeof data?.version !== 'number') {
+    throw new Error(`${manifestPath} has no version`);
+  }
+  if (data.version > MANIFEST_VERSION) {
+    throw new Error(`${manifestPath} was written by a newer clawignore (version ${data.version})`);
+  }
+  if (!Array.isArray(data.mountRoots) || !Array.isArray(data.ignoredPaths) || typeof data.image !== 'string') {
+    throw new Error(`${manifestPath} is missing mountRoots, ignoredPaths or image`);
+  }
+
+  return {
+    version: MANIFEST_VERSION,
+    generatedAt: data.generatedAt ?? '',
+    image: data.image,
+    mountRoots: data.mountRoots,
+    mountPaths: Array.isArray(data.mountPaths) ? data.mountPaths : data.mountRoots,
+    ignoredPaths: data.ignoredPaths,
+    options: { ...DEFAULT_GATEWAY_OPTIONS, ...data.options },
+  };
+}
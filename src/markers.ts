@@ -0,0 +1,39 @@
+/**
+ * Classification labels that mark a document as not for sharing. A marker
+ * written in capitals only matches in capitals, since "confidential" also
+ * turns up in ordinary prose; other markers match in any case.
+ */
+export const DEFAULT_MARKERS = [
+  'CONFIDENTIAL',
+  'Strictly Confidential',
+  'Privileged and Confidential',
+  'Privileged & Confidential',
+  'Attorney-Client Privileged',
+  'Attorney Client Privilege',
+  'NDA',
+  'Non-Disclosure Agreement',
+  'Internal Only',
+  'Internal Use Only',
+  'Do Not Distribute',
+  'PROPRIETARY',
+  'RESTRICTED',
+];
+
+export interface MarkerMatcher {
+  marker: string;
+  pattern: RegExp;
+}
+
+export function compileMarkers(markers: string[]): MarkerMatcher[] {
+  return markers.map(marker => {
+    const words = marker.trim().split(/\s+/).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    const caseSensitive = marker === marker.toUpperCase() && /[A-Z]/.test(marker);
+    // Words may be split across lines or runs of spaces
+    return { marker, pattern: new RegExp(`(?<![\\w-])${words.join('\\s+')}(?![\\w-])`, caseSensitive ? '' : 'i') };
+  });
+}
+
+// The markers found in `text`, in list order
+export function findMarkers(text: string, matchers: MarkerMatcher[]): string[] {
+  return matchers.filter(({ pattern }) => pattern.test(text)).map(({ marker }) => marker);
+}
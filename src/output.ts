@@ -0,0 +1,59 @@
+import * as p from '@clack/prompts';
+
+export interface GlobalOptions {
+  root?: string;    // OpenClaw directory, see resolveOpenClawRoot
+  json: boolean;    // Machine-readable output on stdout
+  quiet: boolean;   // Only errors, warnings and the command's result
+}
+
+let globalOptions: GlobalOptions = { json: false, quiet: false };
+
+export function setGlobalOptions(options: GlobalOptions): void {
+  globalOptions = options;
+}
+
+export function getGlobalOptions(): GlobalOptions {
+  return globalOptions;
+}
+
+/**
+ * Progress and status messages for the non-interactive commands. In JSON
+ * mode info, step and success are dropped, and warnings and errors go to
+ * stderr as plain lines, so stdout stays parseable.
+ */
+export const log = {
+  info(message: string) {
+    if (globalOptions.quiet || globalOptions.json) return;
+    p.log.info(message);
+  },
+  step(message: string) {
+    if (globalOptions.quiet || globalOptions.json) return;
+    p.log.step(message);
+  },
+  success(message: string) {
+    if (globalOptions.quiet || globalOptions.json) return;
+    p.log.success(message);
+  },
+  warn(message: string) {
+    if (globalOptions.json) {
+      console.error(`warning: ${message}`);
+      return;
+    }
+    p.log.warn(message);
+  },
+  error(message: string) {
+    if (globalOptions.json) {
+      console.error(`error: ${message}`);
+      return;
+    }
+    p.log.error(message);
+  },
+};
+
+export function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+export function printJson(value: unknown): void {
+  process.stdout.write(JSON.stringify(value, null, 2) + '\n');
+}
@@ -0,0 +1,102 @@
+import { parseArgs } from 'util';
+import { resolve } from 'path';
+import { appendToClawignore, removeFromClawignore } from './writer.js';
+import { regenerateDockerCompose } from './docker-generator.js';
+import { resolveOpenClawRoot, startOpenClaw } from './docker.js';
+import { getGlobalOptions, log, errorMessage, printJson } from './output.js';
+import { EXIT_OK, EXIT_ERROR, EXIT_USAGE } from './exit-codes.js';
+
+interface PatternArgs {
+  patterns: string[];
+  restart: boolean;
+}
+
+function parsePatternArgs(command: string, args: string[]): PatternArgs {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      restart: { type: 'boolean' },
+    },
+    allowPositionals: true,
+    strict: true,
+  });
+
+  if (positionals.length === 0) {
+    throw new Error(`Usage: clawignore ${command} <pattern>... [--restart]`);
+  }
+
+  return { patterns: positionals.map(normalizePattern), restart: values.restart ?? false };
+}
+
+// Relative paths are meant from where the command runs, not from .clawignore
+function normalizePattern(pattern: string): string {
+  if (pattern === '.' || pattern === '..' || pattern.startsWith('./') || pattern.startsWith('../')) {
+    const trailingSlash = pattern.endsWith('/') ? '/' : '';
+    return resolve(pattern) + trailingSlash;
+  }
+  return pattern;
+}
+
+/**
+ * Rebuild docker-compose.yml after .clawignore changed, if clawignore
+ * generated it, and recreate the container when asked to.
+ */
+async function reapply(openclawRoot: string, restart: boolean): Promise<boolean> {
+  if (!(await regenerateDockerCompose(openclawRoot))) {
+    log.warn('No clawignore.lock.json found; docker-compose.yml was not regenerated');
+    return false;
+  }
+  log.success('Regenerated docker-compose.yml');
+
+  if (restart) {
+    await startOpenClaw(openclawRoot);
+    log.success('OpenClaw restarted with the new mounts');
+  } else {
+    log.info('Recreate the container to apply it, or pass --restart');
+  }
+  return true;
+}
+
+async function runPatternCommand(
+  command: 'add' | 'remove',
+  args: string[],
+  update: (openclawRoot: string, patterns: string[]) => Promise<string[]>
+): Promise<number> {
+  let options: PatternArgs;
+  try {
+    options = parsePatternArgs(command, args);
+  } catch (err) {
+    log.error(errorMessage(err));
+    return EXIT_USAGE;
+  }
+
+  try {
+    const openclawRoot = await resolveOpenClawRoot(getGlobalOptions().root);
+    const changed = await update(openclawRoot, options.patterns);
+    const unchanged = options.patterns.filter(p => !changed.includes(p));
+
+    for (const pattern of unchanged) {
+      log.warn(command === 'add' ? `Already in .clawignore: ${pattern}` : `Not in .clawignore: ${pattern}`);
+    }
+
+    const regenerated = changed.length > 0 && (await reapply(openclawRoot, options.restart));
+
+    if (getGlobalOptions().json) {
+      printJson({ [command === 'add' ? 'added' : 'removed']: changed, unchanged, regenerated });
+    } else if (changed.length > 0) {
+      log.success(`${command === 'add' ? 'Added' : 'Removed'} ${changed.length} ${changed.length === 1 ? 'pattern' : 'patterns'}`);
+    }
+    return EXIT_OK;
+  } catch (err) {
+    log.error(errorMessage(err));
+    return EXIT_ERROR;
+  }
+}
+
+export async function runAdd(args: string[]): Promise<number> {
+  return runPatternCommand('add', args, appendToClawignore);
+}
+
+export async function runRemove(args: string[]): Promise<number> {
+  return runPatternCommand('remove', args, removeFromClawignore);
+}
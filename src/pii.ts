@@ -0,0 +1,104 @@
+export type PiiType = 'credit-card' | 'iban' | 'ssn' | 'phone' | 'email';
+
+// Counts only; the values themselves are never kept or shown
+export type PiiCounts = Partial<Record<PiiType, number>>;
+
+const PII_LABELS: Record<PiiType, [string, string]> = {
+  'credit-card': ['card number', 'card numbers'],
+  iban: ['IBAN', 'IBANs'],
+  ssn: ['US SSN', 'US SSNs'],
+  phone: ['phone number', 'phone numbers'],
+  email: ['email address', 'email addresses'],
+};
+
+// One of these is enough to call a file personal data
+const STRONG_TYPES: PiiType[] = ['credit-card', 'iban', 'ssn'];
+// Contact details are everywhere in small numbers; only lists count
+const MIN_PHONES = 10;
+const MIN_EMAILS = 10;
+const MIN_EMAILS_PER_LINE = 0.1;
+
+const CARD_PATTERN = /(?<![\d-])\d(?:[ -]?\d){12,18}(?![\d-])/g;
+const CARD_PREFIX = /^(4|5[1-5]|2[2-7]|3[47]|6(011|5))/;
+const IBAN_PATTERN = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g;
+const SSN_PATTERN = /(?<![\d-])(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}(?![\d-])/g;
+const PHONE_PATTERN = /(?<![\w+])(?:\+?1[ .-]?)?\(?[2-9]\d{2}\)?[ .-][2-9]\d{2}[ .-]\d{4}(?!\d)|(?<![\w+])\+[1-9]\d{0,2}[ .-]?\d{2,4}(?:[ .-]?\d{2,4}){2,4}(?!\d)/g;
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// ISO 13616: move the country and check digits to the end, mod 97 is 1
+function isValidIban(iban: string): boolean {
+  const compact = iban.replace(/ /g, '');
+  const rearranged = compact.slice(4) + compact.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const value = parseInt(char, 36);
+    remainder = value > 9 ? (remainder * 100 + value) % 97 : (remainder * 10 + value) % 97;
+  }
+  return remainder === 1;
+}
+
+function count(content: string, pattern: RegExp, isValid: (match: string) => boolean = () => true): number {
+  let total = 0;
+  for (const match of content.matchAll(pattern)) {
+    if (isValid(match[0])) total++;
+  }
+  return total;
+}
+
+/**
+ * Count personal data in plain text. Card numbers must pass the Luhn
+ * check and IBANs their checksum, so IDs and order numbers don't count.
+ */
+export function countPii(content: string): PiiCounts {
+  const counts: PiiCounts = {
+    'credit-card': count(content, CARD_PATTERN, match => {
+      const digits = match.replace(/[ -]/g, '');
+      return CARD_PREFIX.test(digits) && !/^(\d)\1+$/.test(digits) && passesLuhn(digits);
+    }),
+    iban: count(content, IBAN_PATTERN, isValidIban),
+    ssn: count(content, SSN_PATTERN),
+    phone: count(content, PHONE_PATTERN),
+    email: count(content, EMAIL_PATTERN),
+  };
+
+  return Object.fromEntries(Object.entries(counts).filter(([, n]) => n > 0));
+}
+
+/**
+ * Whether the counts make the file personal data: any card, IBAN or SSN
+ * (high confidence), or a list of phone numbers or email addresses
+ * (medium). null if neither.
+ */
+export function assessPii(counts: PiiCounts, lineCount: number): 'high' | 'medium' | null {
+  if (STRONG_TYPES.some(type => counts[type])) return 'high';
+
+  const emails = counts.email ?? 0;
+  if ((counts.phone ?? 0) >= MIN_PHONES || (emails >= MIN_EMAILS && emails / Math.max(lineCount, 1) >= MIN_EMAILS_PER_LINE)) {
+    return 'medium';
+  }
+  return null;
+}
+
+export function hasStrongPii(counts: PiiCounts): boolean {
+  return STRONG_TYPES.some(type => counts[type]);
+}
+
+// "3 card numbers, 120 email addresses"
+export function formatPiiCounts(counts: PiiCounts): string {
+  return (Object.entries(counts) as [PiiType, number][])
+    .map(([type, n]) => `${n} ${PII_LABELS[type][n === 1 ? 0 : 1]}`)
+    .join(', ');
+}
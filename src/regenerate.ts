@@ -0,0 +1,49 @@
+import { parseArgs } from 'util';
+import { regenerateDockerCompose } from './docker-generator.js';
+import { getManifestPath } from './manifest.js';
+import { resolveOpenClawRoot, startOpenClaw } from './docker.js';
+import { getGlobalOptions, log, errorMessage } from './output.js';
+import { EXIT_OK, EXIT_ERROR, EXIT_USAGE } from './exit-codes.js';
+
+/**
+ * Rebuild docker-compose.yml after a hand edit of .clawignore,
+ * using the mount roots recorded in clawignore.lock.json.
+ */
+export async function runRegenerate(args: string[]): Promise<number> {
+  let values: { restart?: boolean };
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        restart: { type: 'boolean' },
+      },
+      strict: true,
+    }));
+  } catch (err) {
+    log.error(errorMessage(err));
+    return EXIT_USAGE;
+  }
+
+  try {
+    const openclawRoot = await resolveOpenClawRoot(getGlobalOptions().root);
+
+    if (!(await regenerateDockerCompose(openclawRoot))) {
+      log.error(`No ${getManifestPath(openclawRoot)} found`);
+      log.info('Run the full setup (npx clawignore) or `clawignore apply` once to create it.');
+      return EXIT_ERROR;
+    }
+
+    log.success('Regenerated docker-compose.yml from .clawignore');
+
+    if (values.restart) {
+      await startOpenClaw(openclawRoot);
+      log.success('OpenClaw restarted with the new mounts');
+    } else {
+      log.info(`Apply it with: cd ${openclawRoot} && docker compose down && docker compose up -d`);
+    }
+    return EXIT_OK;
+  } catch (err) {
+    log.error(errorMessage(err));
+    return EXIT_ERROR;
+  }
+}
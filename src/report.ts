@@ -0,0 +1,236 @@
+import { pathToFileURL } from 'url';
+import { formatFilePath, SensitiveFile } from './scanner.js';
+import { getDetector } from './detectors.js';
+import { getVersion } from './version.js';
+import { SEVERITIES } from './severity.js';
+import { BaselineComparison, formatBaselineSummary } from './baseline.js';
+import { ProjectRulePack } from './scan-rules.js';
+
+export type ReportFormat = 'json' | 'sarif' | 'table';
+
+export const REPORT_FORMATS: ReportFormat[] = ['json', 'sarif', 'table'];
+
+// What the scanned folder's own configuration changed about the scan
+export interface ProjectOverrides {
+  rulePack?: ProjectRulePack;
+  allowed?: number;  // Findings its .clawignore-allow or rule pack allowed
+}
+
+/**
+ * With a `baseline` comparison, `files` are the new and changed findings
+ * and the report adds what was resolved.
+ */
+export function formatReport(
+  format: ReportFormat,
+  files: SensitiveFile[],
+  root: string,
+  baseline?: BaselineComparison,
+  project?: ProjectOverrides
+): string {
+  switch (format) {
+    case 'json': return formatJson(files, root, baseline, project);
+    case 'sarif': return formatSarif(files, root, baseline);
+    case 'table': return formatTable(files, baseline, project);
+  }
+}
+
+export function formatJson(
+  files: SensitiveFile[],
+  root: string,
+  baseline?: BaselineComparison,
+  project?: ProjectOverrides
+): string {
+  // Allowlisted findings, if shown, are listed but not counted
+  const counted = files.filter(f => !f.allowed);
+  const report = {
+    root,
+    summary: {
+      total: counted.length,
+      high: counted.filter(f => f.confidence === 'high').length,
+      medium: counted.filter(f => f.confidence === 'medium').length,
+      bySeverity: Object.fromEntries(SEVERITIES.map(severity => [severity, counted.filter(f => f.severity === severity).length])),
+      allowed: files.length - counted.length,
+      ...(project?.allowed !== undefined && { allowedByProject: project.allowed }),
+      ...(baseline && {
+        baseline: {
+          new: baseline.new,
+          changed: baseline.changed,
+          resolved: baseline.resolved.length,
+          unchanged: baseline.unchanged,
+        },
+      }),
+    },
+    ...(project?.rulePack && { project }),
+    findings: files,
+    ...(baseline && { resolved: baseline.resolved }),
+  };
+
+  return JSON.stringify(report, null, 2) + '\n';
+}
+
+/**
+ * SARIF 2.1.0, the format code-scanning dashboards ingest.
+ * Locations are relative to the scan root, exposed as %SRCROOT%.
+ */
+export function formatSarif(files: SensitiveFile[], root: string, baseline?: BaselineComparison): string {
+  // One rule entry per rule that produced a finding
+  const rules = new Map<string, SarifRule>();
+  for (const file of files) {
+    if (!rules.has(file.ruleId)) {
+      rules.set(file.ruleId, {
+        id: file.ruleId,
+        text: file.reason,
+        level: sarifLevel(file),
+        category: file.category,
+        help: file.remediation,
+      });
+    }
+    for (const finding of file.findings ?? []) {
+      if (!rules.has(finding.ruleId)) {
+        const category = getDetector(finding.ruleId)?.category ?? file.category;
+        rules.set(finding.ruleId, { id: finding.ruleId, text: finding.name, level: 'error', category });
+      }
+    }
+  }
+
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'clawignore',
+            version: getVersion(),
+            informationUri: 'https://github.com/wuyuwenj/clawignore',
+            rules: [...rules.values()].map(rule => ({
+              id: rule.id,
+              shortDescription: { text: rule.text },
+              ...(rule.help && { help: { text: rule.help } }),
+              defaultConfiguration: { level: rule.level },
+              properties: { category: rule.category },
+            })),
+          },
+        },
+        originalUriBaseIds: {
+          SRCROOT: { uri: pathToFileURL(root.endsWith('/') ? root : root + '/').href },
+        },
+        results: files.flatMap(file => sarifResults(file)),
+        ...(baseline && {
+          properties: { resolved: baseline.resolved.length, unchanged: baseline.unchanged },
+        }),
+      },
+    ],
+  };
+
+  return JSON.stringify(sarif, null, 2) + '\n';
+}
+
+interface SarifRule {
+  id: string;
+  text: string;
+  level: 'error' | 'warning' | 'note';
+  category: string;
+  help?: string;
+}
+
+// Files with detected secrets get one result per secret, pointing at it
+function sarifResults(file: SensitiveFile): object[] {
+  const artifactLocation = {
+    uri: file.relativePath.split('/').map(encodeURIComponent).join('/'),
+    uriBaseId: 'SRCROOT',
+  };
+  const properties = {
+    category: file.category,
+    confidence: file.confidence,
+    severity: file.severity,
+    score: file.score,
+    explanation: file.explanation,
+    ...(file.history && { commit: file.history.commit, historyPath: file.history.path }),
+    ...(file.pii && { pii: file.pii }),
+    ...(file.markers && { markers: file.markers }),
+  };
+
+  // Dashboards track results across runs by fingerprint, and list
+  // suppressed ones separately
+  const common = {
+    partialFingerprints: { 'clawignore/v1': file.fingerprint },
+    ...(file.baselineState && { baselineState: file.baselineState === 'new' ? 'new' : 'updated' }),
+    ...(file.allowed && { suppressions: [{ kind: 'external', justification: `Allowed by ${file.allowed}` }] }),
+    properties,
+  };
+
+  if (!file.findings?.length) {
+    return [{
+      ruleId: file.ruleId,
+      level: sarifLevel(file),
+      message: { text: `${file.reason}: ${formatFilePath(file)}` },
+      locations: [{ physicalLocation: { artifactLocation } }],
+      ...common,
+    }];
+  }
+
+  return file.findings.map(finding => ({
+    ruleId: finding.ruleId,
+    level: sarifLevel(file),
+    message: { text: `${finding.name} in ${formatFilePath(file)}: ${finding.preview}` },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation,
+          // Lines inside an archive entry or an old commit don't exist in
+          // the file on disk
+          ...(!file.archiveEntry && !file.history && { region: { startLine: finding.line, startColumn: finding.column } }),
+        },
+      },
+    ],
+    ...common,
+  }));
+}
+
+function sarifLevel(file: SensitiveFile): 'error' | 'warning' | 'note' {
+  if (file.severity === 'critical' || file.severity === 'high') return 'error';
+  return file.severity === 'medium' ? 'warning' : 'note';
+}
+
+export function formatTable(files: SensitiveFile[], baseline?: BaselineComparison, project?: ProjectOverrides): string {
+  const lines = baseline ? [`${formatBaselineSummary(baseline)} (${baseline.unchanged} unchanged)`, ''] : [];
+
+  if (files.length === 0) {
+    lines.push(baseline ? 'No new or changed sensitive files.' : 'No sensitive files found.');
+  } else {
+    const header = ['SEVERITY', 'CATEGORY', 'PATH', 'EXPLANATION'];
+    const rows = files.map(f => [
+      f.severity,
+      f.category,
+      formatFilePath(f),
+      [f.baselineState, f.allowed && `allowed by ${f.allowed}`, f.explanation].filter(Boolean).join('; '),
+    ]);
+
+    const widths = header.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+    const formatRow = (row: string[]) =>
+      row.map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i]))).join('  ');
+
+    lines.push(formatRow(header));
+    for (const [i, file] of files.entries()) {
+      lines.push(formatRow(rows[i]));
+      for (const finding of file.findings ?? []) {
+        lines.push(`    ${formatFilePath(file)}:${finding.line}:${finding.column}  ${finding.ruleId}  ${finding.preview}`);
+      }
+    }
+  }
+
+  // Accepted findings that are gone
+  if (baseline && baseline.resolved.length > 0) {
+    lines.push('', 'RESOLVED');
+    for (const entry of baseline.resolved) {
+      lines.push(`    ${entry.path}  ${entry.ruleId}`);
+    }
+  }
+
+  if (project?.allowed) {
+    lines.push('', `${project.allowed} findings allowed by the scanned folder's own allowlist`);
+  }
+
+  return lines.join('\n') + '\n';
+}
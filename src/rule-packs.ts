@@ -0,0 +1,283 @@
+import { readdir, readFile } from 'fs/promises';
+import { extname, join } from 'path';
+import { homedir } from 'os';
+import { parse as parseYaml } from 'yaml';
+import { SecretDetector } from './detectors.js';
+import { buildRuleset, isBuiltinRuleId, ProjectRulePack, Ruleset, ScanRule } from './scan-rules.js';
+import { AllowEntry } from './allowlist.js';
+
+export const RULE_PACK_VERSION = 1;
+
+// Looked up in the scanned folder, first match wins
+export const PROJECT_RULE_FILES = ['.clawignore-rules.yaml', '.clawignore-rules.yml', '.clawignore-rules.json'];
+
+// Set to 1 to let project packs turn off built-in rules. Without it, a
+// checked-out repository could silence the scanner on its own secrets.
+export const TRUST_PROJECT_RULES_ENV = 'CLAWIGNORE_TRUST_PROJECT_RULES';
+
+const PACK_EXTENSIONS = ['.yaml', '.yml', '.json'];
+const CATEGORIES = ['secrets', 'credentials', 'keys', 'config', 'data', 'app-data'];
+const CONFIDENCES = ['high', 'medium'];
+const PACK_FIELDS = ['version', 'disable', 'exclude', 'keywords', 'markers', 'allow', 'rules'];
+const RULE_FIELDS = ['id', 'glob', 'content', 'contentCheck', 'reason', 'category', 'confidence'];
+const RULE_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+export interface RulePack {
+  path: string;
+  disable: string[];
+  exclude: string[];
+  keywords: string[];
+  markers: string[];            // Classification markers for documents
+  allow: AllowEntry[];          // Findings to hide, as in .clawignore-allow
+  rules: ScanRule[];            // Rules with a glob
+  detectors: SecretDetector[];  // Rules with only a content pattern
+  project?: boolean;            // Read from the scanned folder
+}
+
+export function getUserRulesDir(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+  return join(configHome, 'clawignore', 'rules');
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function compileRegex(source: string, flags: string, field: string, errors: string[]): RegExp | undefined {
+  try {
+    return new RegExp(source, flags);
+  } catch (err) {
+    errors.push(`${field}: not a valid regular expression (${err instanceof Error ? err.message : err})`);
+    return undefined;
+  }
+}
+
+/**
+ * Validate a parsed pack and turn it into rules. Every problem is
+ * collected, so a broken pack can be fixed in one go.
+ */
+export function validateRulePack(data: unknown, path: string): RulePack {
+  const errors: string[] = [];
+  const pack: RulePack = { path, disable: [], exclude: [], keywords: [], markers: [], allow: [], rules: [], detectors: [] };
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(`Invalid rule pack ${path}:\n  expected a mapping with a "rules" list`);
+  }
+  const object = data as Record<string, unknown>;
+
+  for (const key of Object.keys(object)) {
+    if (!PACK_FIELDS.includes(key)) {
+      errors.push(`${key}: unknown field (expected ${PACK_FIELDS.join(', ')})`);
+    }
+  }
+
+  if (object.version !== undefined && object.version !== RULE_PACK_VERSION) {
+    errors.push(`version: must be ${RULE_PACK_VERSION}`);
+  }
+
+  for (const field of ['disable', 'exclude', 'keywords', 'markers'] as const) {
+    if (object[field] === undefined) continue;
+    if (!isStringList(object[field])) {
+      errors.push(`${field}: must be a list of strings`);
+      continue;
+    }
+    pack[field] = object[field] as string[];
+  }
+
+  if (object.allow !== undefined) {
+    if (isStringList(object.allow)) {
+      pack.allow = object.allow.map(pattern => ({ pattern, source: path }));
+    } else {
+      errors.push('allow: must be a list of strings');
+    }
+  }
+
+  for (const id of pack.disable) {
+    if (!isBuiltinRuleId(id)) {
+      errors.push(`disable: "${id}" is not a built-in rule id`);
+    }
+  }
+
+  const rules = object.rules ?? [];
+  if (!Array.isArray(rules)) {
+    errors.push('rules: must be a list');
+  } else {
+    for (const [index, rule] of rules.entries()) {
+      const at = `rules[${index}]`;
+      if (typeof rule !== 'object' || rule === null || Array.isArray(rule)) {
+        errors.push(`${at}: must be a mapping`);
+        continue;
+      }
+
+      for (const key of Object.keys(rule)) {
+        if (!RULE_FIELDS.includes(key)) {
+          errors.push(`${at}.${key}: unknown field (expected ${RULE_FIELDS.join(', ')})`);
+        }
+      }
+
+      const { id, glob, content, contentCheck, reason, category, confidence } = rule as Record<string, unknown>;
+      const ruleErrors = errors.length;
+
+      if (typeof id !== 'string' || !RULE_ID_PATTERN.test(id)) {
+        errors.push(`${at}.id: required, lowercase letters, digits and dashes`);
+      } else if (isBuiltinRuleId(id)) {
+        errors.push(`${at}.id: "${id}" is a built-in rule; pick another id or disable the built-in one`);
+      }
+      if (typeof reason !== 'string' || !reason) {
+        errors.push(`${at}.reason: required`);
+      }
+      if (typeof category !== 'string' || !CATEGORIES.includes(category)) {
+        errors.push(`${at}.category: must be one of ${CATEGORIES.join(', ')}`);
+      }
+      if (typeof confidence !== 'string' || !CONFIDENCES.includes(confidence)) {
+        errors.push(`${at}.confidence: must be one of ${CONFIDENCES.join(', ')}`);
+      }
+      for (const [field, value] of [['glob', glob], ['content', content], ['contentCheck', contentCheck]] as const) {
+        if (value !== undefined && typeof value !== 'string') {
+          errors.push(`${at}.${field}: must be a string`);
+        }
+      }
+      if (glob === undefined && content === undefined) {
+        errors.push(`${at}: needs a glob or a content pattern`);
+      }
+      if (glob !== undefined && content !== undefined) {
+        errors.push(`${at}: has both glob and content; use glob with contentCheck to require both`);
+      }
+      if (contentCheck !== undefined && glob === undefined) {
+        errors.push(`${at}.contentCheck: only applies to rules with a glob`);
+      }
+
+      const check = typeof contentCheck === 'string' ? compileRegex(contentCheck, 'm', `${at}.contentCheck`, errors) : undefined;
+      const pattern = typeof content === 'string' ? compileRegex(content, 'g', `${at}.content`, errors) : undefined;
+      if (errors.length > ruleErrors) continue;
+
+      const common = {
+        id: id as string,
+        reason: reason as string,
+        category: category as ScanRule['category'],
+      };
+
+      if (pattern) {
+        pack.detectors.push({
+          id: common.id,
+          name: common.reason,
+          category: common.category,
+          pattern,
+          visiblePrefix: 4,
+          confidence: confidence as ScanRule['confidence'],
+        });
+      } else {
+        pack.rules.push({
+          ...common,
+          pattern: glob as string,
+          confidence: confidence as ScanRule['confidence'],
+          contentCheck: check,
+          source: path,
+        });
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid rule pack ${path}:\n${errors.map(e => `  ${e}`).join('\n')}`);
+  }
+  return pack;
+}
+
+export async function readRulePack(path: string): Promise<RulePack> {
+  const content = await readFile(path, 'utf-8');
+
+  let data: unknown;
+  try {
+    data = extname(path) === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (err) {
+    throw new Error(`Invalid rule pack ${path}:\n  ${err instanceof Error ? err.message : err}`);
+  }
+
+  return validateRulePack(data, path);
+}
+
+/**
+ * User packs from ~/.config/clawignore/rules, in name order, then the
+ * project pack from `projectDir` if there is one.
+ */
+export async function loadRulePacks(projectDir?: string): Promise<RulePack[]> {
+  const packs: RulePack[] = [];
+  const userDir = getUserRulesDir();
+
+  const entries = await readdir(userDir).catch(() => [] as string[]);
+  for (const entry of entries.sort()) {
+    if (PACK_EXTENSIONS.includes(extname(entry))) {
+      packs.push(await readRulePack(join(userDir, entry)));
+    }
+  }
+
+  if (projectDir) {
+    for (const name of PROJECT_RULE_FILES) {
+      const path = join(projectDir, name);
+      const exists = await readFile(path).then(() => true, () => false);
+      if (exists) {
+        packs.push({ ...(await readRulePack(path)), project: true });
+        break;
+      }
+    }
+  }
+
+  const seen = new Map<string, string>();
+  for (const pack of packs) {
+    for (const { id } of [...pack.rules, ...pack.detectors]) {
+      const previous = seen.get(id);
+      if (previous) {
+        throw new Error(`Rule id "${id}" is defined in both ${previous} and ${pack.path}`);
+      }
+      seen.set(id, pack.path);
+    }
+  }
+
+  return packs;
+}
+
+const rulesetCache = new Map<string, Promise<Ruleset>>();
+
+/**
+ * The built-in rules combined with every rule pack that applies to
+ * `projectDir`. Loaded once per folder and process, until
+ * clearRulesetCache.
+ */
+export function loadRuleset(projectDir?: string): Promise<Ruleset> {
+  const key = projectDir ?? '';
+  let ruleset = rulesetCache.get(key);
+
+  if (!ruleset) {
+    ruleset = loadRulePacks(projectDir).then(packs => {
+      const trusted = process.env[TRUST_PROJECT_RULES_ENV] === '1';
+      const project = packs.find(pack => pack.project);
+      const projectPack: ProjectRulePack | undefined = project && {
+        path: project.path,
+        disable: project.disable,
+        applied: trusted,
+      };
+
+      return {
+        ...buildRuleset({
+          rules: packs.flatMap(pack => pack.rules),
+          exclude: packs.flatMap(pack => pack.exclude),
+          keywords: packs.flatMap(pack => pack.keywords),
+          markers: packs.flatMap(pack => pack.markers),
+          allow: packs.flatMap(pack => pack.allow),
+          detectors: packs.flatMap(pack => pack.detectors),
+          disabled: packs.flatMap(pack => (pack.project && !trusted ? [] : pack.disable)),
+        }),
+        projectPack,
+      };
+    });
+    rulesetCache.set(key, ruleset);
+  }
+
+  return ruleset;
+}
+
+// Rule packs changed on disk; the next loadRuleset reads them again
+export function clearRulesetCache(): void {
+  rulesetCache.clear();
+}
@@ -0,0 +1,111 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { homedir } from 'os';
+import { SensitiveFile } from './scanner.js';
+import { isDryRun } from './dry-run.js';
+
+const CACHE_VERSION = 4;
+const CACHE_FILE = 'scan-cache.json';
+// Beyond this, entries not seen in the current scan are dropped
+const MAX_ENTRIES = 100_000;
+
+// Severity also depends on permissions, so it is assessed after the cache
+export type CachedResult = Omit<SensitiveFile, 'path' | 'relativePath' | 'severity' | 'score' | 'explanation'>;
+
+export interface FileIdentity {
+  size: number;
+  mtimeMs: number;
+  ino: number;
+}
+
+interface CacheEntry extends FileIdentity {
+  results: CachedResult[];      // Empty: checked, not sensitive
+}
+
+interface CacheData {
+  version: number;
+  key: string;                  // Rules and settings the results were computed with
+  entries: Record<string, CacheEntry>;
+}
+
+export interface ScanCache {
+  get(path: string, identity: FileIdentity): CachedResult[] | undefined;
+  set(path: string, identity: FileIdentity, results: CachedResult[]): void;
+  save(): Promise<void>;
+}
+
+let enabled = true;
+
+/**
+ * With the cache disabled every file is read and classified again, and
+ * nothing is written to the cache.
+ */
+export function setScanCacheEnabled(value: boolean): void {
+  enabled = value;
+}
+
+export function isScanCacheEnabled(): boolean {
+  return enabled;
+}
+
+export function getCacheDir(): string {
+  return join(homedir(), '.openclaw', 'cache');
+}
+
+/**
+ * Open the cache for results computed under `key`. A different key, such
+ * as after a rule pack changed, starts from an empty cache.
+ */
+export async function openScanCache(key: string): Promise<ScanCache> {
+  const cachePath = join(getCacheDir(), CACHE_FILE);
+  let entries: Record<string, CacheEntry> = {};
+
+  try {
+    const data: CacheData = JSON.parse(await readFile(cachePath, 'utf-8'));
+    if (data.version === CACHE_VERSION && data.key === key && data.entries) {
+      entries = data.entries;
+    }
+  } catch {
+    // Missing or corrupt, start over
+  }
+
+  const touched = new Set<string>();
+  let changed = false;
+
+  return {
+    get(path, identity) {
+      const entry = entries[path];
+      if (!entry || entry.size !== identity.size || entry.mtimeMs !== identity.mtimeMs || entry.ino !== identity.ino) {
+        return undefined;
+      }
+      touched.add(path);
+      return entry.results;
+    },
+
+    set(path, identity, results) {
+      entries[path] = { size: identity.size, mtimeMs: identity.mtimeMs, ino: identity.ino, results };
+      touched.add(path);
+      changed = true;
+    },
+
+    async save() {
+      if (!changed || isDryRun()) return;
+
+      if (Object.keys(entries).length > MAX_ENTRIES) {
+        entries = Object.fromEntries(Object.entries(entries).filter(([path]) => touched.has(path)));
+      }
+
+      // Written aside and renamed, so a concurrent scan never reads half a file
+      const data: CacheData = { version: CACHE_VERSION, key, entries };
+      const temp = `${cachePath}.${process.pid}.tmp`;
+      try {
+        await mkdir(getCacheDir(), { recursive: true });
+        await writeFile(temp, JSON.stringify(data), { mode: 0o600 });
+        await rename(temp, cachePath);
+        changed = false;
+      } catch {
+        // The cache is only an optimisation
+      }
+    },
+  };
+}
@@ -0,0 +1,208 @@
+import { parseArgs } from 'util';
+import { join, resolve } from 'path';
+import { stat, writeFile } from 'fs/promises';
+import { scanForSensitiveFiles, ScannerOptions, SensitiveFile } from './scanner.js';
+import { formatReport, ProjectOverrides, ReportFormat, REPORT_FORMATS } from './report.js';
+import { compareWithBaseline, readBaseline, writeBaseline } from './baseline.js';
+import { getGlobalOptions, log, errorMessage } from './output.js';
+import { EXIT_OK, EXIT_ERROR, EXIT_USAGE, EXIT_PROBLEMS } from './exit-codes.js';
+import { isAtLeast, Severity, SEVERITIES } from './severity.js';
+import { loadRuleset, TRUST_PROJECT_RULES_ENV } from './rule-packs.js';
+import { ProjectRulePack } from './scan-rules.js';
+import { AllowEntry, ALLOWLIST_FILE } from './allowlist.js';
+
+export interface ScanOptions {
+  dir: string;
+  format: ReportFormat;
+  failOn?: Severity;
+  output?: string;
+  baseline?: string;
+  updateBaseline: boolean;   // Accept the current findings into the baseline
+  scanner: ScannerOptions;
+}
+
+export function parseScanArgs(args: string[]): ScanOptions {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      format: { type: 'string', short: 'f' },
+      'fail-on': { type: 'string' },
+      output: { type: 'string', short: 'o' },
+      'entropy-base64': { type: 'string' },
+      'entropy-hex': { type: 'string' },
+      'max-depth': { type: 'string' },
+      'max-file-size': { type: 'string' },
+      'no-archives': { type: 'boolean' },
+      'archive-depth': { type: 'string' },
+      'git-history': { type: 'boolean' },
+      'show-allowed': { type: 'boolean' },
+      baseline: { type: 'string' },
+      'update-baseline': { type: 'boolean' },
+    },
+    allowPositionals: true,
+    strict: true,
+  });
+
+  if (positionals.length > 1) {
+    throw new Error('scan takes at most one directory');
+  }
+
+  // --json is shorthand for --format json
+  const format = (values.format ?? (getGlobalOptions().json ? 'json' : 'table')) as ReportFormat;
+  if (!REPORT_FORMATS.includes(format)) {
+    throw new Error(`Unknown format "${values.format}" (expected ${REPORT_FORMATS.join(', ')})`);
+  }
+
+  const failOn = values['fail-on'] as Severity | undefined;
+  if (failOn !== undefined && !SEVERITIES.includes(failOn)) {
+    throw new Error(`Unknown --fail-on level "${failOn}" (expected ${SEVERITIES.join(', ')})`);
+  }
+
+  const entropy: ScannerOptions['entropy'] = {};
+  for (const kind of ['base64', 'hex'] as const) {
+    const value = values[`entropy-${kind}`];
+    if (value === undefined) continue;
+    const bits = Number(value);
+    if (!(bits > 0)) {
+      throw new Error(`--entropy-${kind} takes a number of bits per character`);
+    }
+    entropy[kind] = bits;
+  }
+
+  const maxDepth = values['max-depth'] !== undefined ? Number(values['max-depth']) : undefined;
+  if (maxDepth !== undefined && !(Number.isInteger(maxDepth) && maxDepth >= 0)) {
+    throw new Error('--max-depth takes a number of directory levels');
+  }
+
+  const maxFileSize = values['max-file-size'] !== undefined ? parseSize(values['max-file-size']) : undefined;
+
+  const archiveDepth = values['archive-depth'] !== undefined ? Number(values['archive-depth']) : undefined;
+  if (archiveDepth !== undefined && !(Number.isInteger(archiveDepth) && archiveDepth >= 1)) {
+    throw new Error('--archive-depth takes a number of nested archive levels (1 or more)');
+  }
+  if (values['update-baseline'] && !values.baseline) {
+    throw new Error('--update-baseline needs --baseline <file>');
+  }
+
+  const archives = values['no-archives'] ? false : archiveDepth !== undefined ? { maxDepth: archiveDepth } : undefined;
+
+  return {
+    dir: resolve(positionals[0] ?? '.'),
+    format,
+    failOn,
+    output: values.output,
+    baseline: values.baseline && resolve(values.baseline),
+    updateBaseline: values['update-baseline'] ?? false,
+    scanner: {
+      entropy,
+      maxDepth,
+      maxFileSize,
+      archives,
+      gitHistory: values['git-history'],
+      showAllowed: values['show-allowed'],
+    },
+  };
+}
+
+const SIZE_UNITS: Record<string, number> = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 };
+
+// 500000, 512k, 10M
+function parseSize(value: string): number {
+  const match = /^(\d+)\s*([kmg]?)b?$/i.exec(value.trim());
+  if (!match) {
+    throw new Error(`--max-file-size takes a size like 512k or 10M (got "${value}")`);
+  }
+  return Number(match[1]) * SIZE_UNITS[match[2].toLowerCase()];
+}
+
+/**
+ * `--fail-on <level>` fails on findings of that severity or above:
+ * `high` on high or critical, `info` on any. Allowlisted findings never fail.
+ */
+export function violatesPolicy(files: SensitiveFile[], failOn: Severity | undefined): boolean {
+  if (!failOn) return false;
+  return files.some(f => !f.allowed && isAtLeast(f.severity, failOn));
+}
+
+// Rules that came with the folder being scanned deserve a second look
+function warnAboutProjectPack(pack: ProjectRulePack): void {
+  const disabled = pack.disable.join(', ');
+  if (pack.disable.length === 0) {
+    log.warn(`Using rule pack ${pack.path} from the scanned folder`);
+  } else if (pack.applied) {
+    log.warn(`Using rule pack ${pack.path} from the scanned folder; it turns off built-in rules: ${disabled}`);
+  } else {
+    log.warn(
+      `Using rule pack ${pack.path} from the scanned folder, but not its disable list (${disabled}); ` +
+      `set ${TRUST_PROJECT_RULES_ENV}=1 to apply it`
+    );
+  }
+}
+
+export async function runScan(args: string[]): Promise<number> {
+  let options: ScanOptions;
+  try {
+    options = parseScanArgs(args);
+  } catch (err) {
+    log.error(errorMessage(err));
+    return EXIT_USAGE;
+  }
+
+  try {
+    const stats = await stat(options.dir);
+    if (!stats.isDirectory()) {
+      throw new Error(`Not a directory: ${options.dir}`);
+    }
+
+    // Read first, so a broken baseline fails before a long scan
+    const baseline = options.baseline ? await readBaseline(options.baseline) : null;
+    if (options.baseline && !baseline && !options.updateBaseline) {
+      throw new Error(`No baseline at ${options.baseline}; create one with --update-baseline`);
+    }
+
+    const ruleset = options.scanner.ruleset ?? (await loadRuleset(options.dir));
+    const project: ProjectOverrides = { rulePack: ruleset.projectPack };
+    if (project.rulePack) warnAboutProjectPack(project.rulePack);
+
+    // A checked-out repository can allow its own findings, even all of them
+    const projectSources = [join(options.dir, ALLOWLIST_FILE), ruleset.projectPack?.path];
+    const allowedBy = new Map<string, number>();
+    const onAllowed = (_file: SensitiveFile, { source }: AllowEntry) => {
+      if (projectSources.includes(source)) allowedBy.set(source, (allowedBy.get(source) ?? 0) + 1);
+    };
+
+    const files = await scanForSensitiveFiles(options.dir, { ...options.scanner, ruleset, onAllowed });
+    project.allowed = [...allowedBy.values()].reduce((sum, count) => sum + count, 0);
+    if (project.allowed > 0) {
+      log.warn(
+        `${project.allowed} findings allowed by the scanned folder's own ${[...allowedBy.keys()].join(' and ')}; ` +
+        'review it, or list them with --show-allowed'
+      );
+    }
+    // With a baseline, only new and changed findings are reported, and
+    // only they can fail the scan
+    const { files: reported, comparison } = options.baseline
+      ? compareWithBaseline(files, baseline ?? [])
+      : { files, comparison: undefined };
+    const report = formatReport(options.format, reported, options.dir, comparison, project);
+
+    if (options.output) {
+      await writeFile(options.output, report);
+    } else {
+      process.stdout.write(report);
+    }
+
+    if (options.baseline && options.updateBaseline) {
+      const accepted = files.filter(f => !f.allowed);
+      await writeBaseline(options.baseline, accepted, options.dir);
+      log.success(`Baseline ${options.baseline} now accepts ${accepted.length} findings`);
+    }
+
+    // Findings at or above the --fail-on level get their own exit code,
+    // so automation can tell them apart from a crash
+    return violatesPolicy(reported, options.failOn) ? EXIT_PROBLEMS : EXIT_OK;
+  } catch (err) {
+    log.error(errorMessage(err));
+    return EXIT_ERROR;
+  }
+}
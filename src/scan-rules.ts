@@ -0,0 +1,248 @@
+import picomatch from 'picomatch';
+import { createHash } from 'crypto';
+import { SensitiveFile } from './scanner.js';
+import { SECRET_DETECTORS, SecretDetector } from './detectors.js';
+import { APP_DATA_RULES } from './app-data.js';
+import { TOOL_CREDENTIAL_RULES } from './tool-credentials.js';
+import { compileMarkers, DEFAULT_MARKERS, MarkerMatcher } from './markers.js';
+import { AllowEntry } from './allowlist.js';
+
+export interface ScanRule {
+  id: string;
+  pattern: string;                 // Glob, relative to the scan root
+  reason: string;
+  category: SensitiveFile['category'];
+  // High-confidence rules match on the path alone; medium ones need
+  // secret-looking content
+  confidence: SensitiveFile['confidence'];
+  contentCheck?: RegExp;           // If set, the content must match instead
+  sqliteTables?: string[];         // If set, must be a SQLite file with one of these tables
+  pii?: boolean;                   // If set, personal data in the content decides instead
+  markers?: boolean;               // If set, a classification marker in the text decides instead
+  folder?: boolean;                // If set, the pattern matches a folder, never a file
+  store?: boolean;                 // If set, the folder is reported once, its files unread
+  remediation?: string;            // How to stop storing the secret there
+  source?: string;                 // Rule pack that defined the rule
+}
+
+// Patterns that are almost always sensitive
+export const HIGH_CONFIDENCE_PATTERNS = [
+  { id: 'env-file', pattern: '**/.env', reason: 'Environment variables file', category: 'secrets' as const },
+  { id: 'env-variant', pattern: '**/.env.*', reason: 'Environment variables file', category: 'secrets' as const },
+  { id: 'env-local', pattern: '**/.env.local', reason: 'Local environment file', category: 'secrets' as const },
+  { id: 'env-production', pattern: '**/.env.production', reason: 'Production environment file', category: 'secrets' as const },
+  { id: 'pem-file', pattern: '**/*.pem', reason: 'PEM certificate/key file', category: 'keys' as const },
+  { id: 'key-file', pattern: '**/*.key', reason: 'Private key file', category: 'keys' as const },
+  { id: 'pkcs12-file', pattern: '**/*.p12', reason: 'PKCS#12 certificate file', category: 'keys' as const },
+  { id: 'pfx-file', pattern: '**/*.pfx', reason: 'PFX certificate file', category: 'keys' as const },
+  { id: 'java-keystore', pattern: '**/*.{jks,keystore}', reason: 'Java keystore', category: 'keys' as const },
+  { id: 'ssh-rsa-key', pattern: '**/id_rsa', reason: 'SSH private key', category: 'keys' as const },
+  { id: 'ssh-rsa-key-variant', pattern: '**/id_rsa.*', reason: 'SSH key file', category: 'keys' as const },
+  { id: 'ssh-ed25519-key', pattern: '**/id_ed25519', reason: 'SSH private key', category: 'keys' as const },
+  { id: 'ssh-ecdsa-key', pattern: '**/id_ecdsa', reason: 'SSH private key', category: 'keys' as const },
+  { id: 'ssh-dsa-key', pattern: '**/id_dsa', reason: 'SSH private key', category: 'keys' as const },
+  { id: 'ssh-directory', pattern: '**/.ssh/*', reason: 'SSH directory', category: 'keys' as const },
+  { id: 'secrets-directory', pattern: '**/secrets/**', reason: 'Secrets directory', category: 'secrets' as const },
+  { id: 'credentials-json', pattern: '**/credentials.json', reason: 'Credentials file', category: 'credentials' as const },
+  { id: 'service-account-key', pattern: '**/serviceAccountKey*.json', reason: 'Service account key', category: 'credentials' as const },
+  { id: 'aws-credentials', pattern: '**/.aws/credentials', reason: 'AWS credentials', category: 'credentials' as const },
+  { id: 'aws-config', pattern: '**/.aws/config', reason: 'AWS config', category: 'credentials' as const },
+  { id: 'gcp-directory', pattern: '**/.gcp/**', reason: 'GCP config directory', category: 'credentials' as const },
+  { id: 'terraform-tfvars', pattern: '**/terraform.tfvars', reason: 'Terraform variables', category: 'config' as const },
+  { id: 'tfvars-file', pattern: '**/*.tfvars', reason: 'Terraform variables', category: 'config' as const },
+  { id: 'npmrc', pattern: '**/.npmrc', reason: 'NPM config (may contain tokens)', category: 'credentials' as const },
+  { id: 'pypirc', pattern: '**/.pypirc', reason: 'PyPI config (may contain tokens)', category: 'credentials' as const },
+  { id: 'docker-config', pattern: '**/.docker/config.json', reason: 'Docker config', category: 'credentials' as const },
+  { id: 'kubeconfig', pattern: '**/kubeconfig', reason: 'Kubernetes config', category: 'credentials' as const },
+  { id: 'kube-config', pattern: '**/.kube/config', reason: 'Kubernetes config', category: 'credentials' as const },
+];
+
+// Folders that hold credentials as a whole. The scanner only sees files,
+// so these flag the folder itself in the setup browser and .clawignore
+export const SENSITIVE_FOLDERS = [
+  { id: 'aws-directory', pattern: '**/.aws', reason: 'AWS credentials directory', category: 'credentials' as const },
+  { id: 'azure-directory', pattern: '**/.azure', reason: 'Azure credentials directory', category: 'credentials' as const },
+  { id: 'kube-directory', pattern: '**/.kube', reason: 'Kubernetes credentials directory', category: 'credentials' as const },
+  { id: 'docker-directory', pattern: '**/.docker', reason: 'Docker credentials directory', category: 'credentials' as const },
+  { id: 'credentials-directory', pattern: '**/{credentials,.credentials}', reason: 'Credentials directory', category: 'credentials' as const },
+  { id: 'passwords-directory', pattern: '**/{passwords,.passwords}', reason: 'Passwords directory', category: 'secrets' as const },
+  { id: 'private-directory', pattern: '**/private', reason: 'Private directory', category: 'secrets' as const },
+];
+
+// Patterns that might be sensitive - need content inspection
+export const MEDIUM_CONFIDENCE_PATTERNS = [
+  { id: 'config-json', pattern: '**/config.json', reason: 'Config file (may contain secrets)', category: 'config' as const },
+  { id: 'config-dir-json', pattern: '**/config/*.json', reason: 'Config file (may contain secrets)', category: 'config' as const },
+  { id: 'settings-json', pattern: '**/settings.json', reason: 'Settings file (may contain secrets)', category: 'config' as const },
+  { id: 'secret-in-name', pattern: '**/*secret*', reason: 'File with "secret" in name', category: 'secrets' as const },
+  { id: 'password-in-name', pattern: '**/*password*', reason: 'File with "password" in name', category: 'secrets' as const },
+  { id: 'credential-in-name', pattern: '**/*credential*', reason: 'File with "credential" in name', category: 'credentials' as const },
+  { id: 'token-in-name', pattern: '**/*token*', reason: 'File with "token" in name', category: 'credentials' as const },
+  { id: 'api-key-in-name', pattern: '**/*{api_key,apikey,api-key}*', reason: 'File with "API key" in name', category: 'credentials' as const },
+  { id: 'shell-history', pattern: '**/.{bash,zsh}_history', reason: 'Shell history (may contain secrets)', category: 'secrets' as const },
+  { id: 'gitconfig', pattern: '**/.gitconfig', reason: 'Git config (may contain tokens)', category: 'config' as const },
+  { id: 'sqlite-database', pattern: '**/*.sqlite', reason: 'SQLite database', category: 'data' as const },
+  { id: 'database-file', pattern: '**/*.db', reason: 'Database file', category: 'data' as const },
+  { id: 'confidential-document', pattern: '**/*.{pdf,docx,pptx,xlsx}', reason: 'Document marked confidential', category: 'data' as const, markers: true },
+  { id: 'pii-text', pattern: '**/*.{csv,tsv,txt}', reason: 'Personal data in a text file', category: 'data' as const, pii: true },
+  { id: 'pii-document', pattern: '**/*.{xlsx,docx}', reason: 'Personal data in a document', category: 'data' as const, pii: true },
+];
+
+// Patterns to always exclude from scanning
+export const EXCLUDE_PATTERNS = [
+  '**/node_modules/**',
+  '**/.git/**',
+  '**/dist/**',
+  '**/build/**',
+  '**/*.log',
+  '**/package-lock.json',
+  '**/yarn.lock',
+  '**/pnpm-lock.yaml',
+];
+
+// Keywords that indicate a file contains secrets
+export const SECRET_KEYWORDS = [
+  'API_KEY',
+  'APIKEY',
+  'API_SECRET',
+  'SECRET_KEY',
+  'PRIVATE_KEY',
+  'ACCESS_TOKEN',
+  'AUTH_TOKEN',
+  'PASSWORD',
+  'DB_PASSWORD',
+  'DATABASE_URL',
+  'STRIPE_KEY',
+  'STRIPE_SECRET',
+  'AWS_ACCESS_KEY',
+  'AWS_SECRET',
+  'GITHUB_TOKEN',
+  'NPM_TOKEN',
+  'SLACK_TOKEN',
+  'DISCORD_TOKEN',
+  'TWILIO_',
+  'SENDGRID_',
+  'OPENAI_API_KEY',
+  'ANTHROPIC_API_KEY',
+];
+
+export const BUILTIN_RULES: ScanRule[] = [
+  ...HIGH_CONFIDENCE_PATTERNS.map(rule => ({ ...rule, confidence: 'high' as const })),
+  ...SENSITIVE_FOLDERS.map(rule => ({ ...rule, confidence: 'high' as const, folder: true })),
+  ...TOOL_CREDENTIAL_RULES,
+  ...APP_DATA_RULES,
+  ...MEDIUM_CONFIDENCE_PATTERNS.map(rule => ({ ...rule, confidence: 'medium' as const })),
+];
+
+/**
+ * Everything the scanner matches against: the built-in rules plus any
+ * loaded rule packs, with path matchers compiled once.
+ */
+export interface Ruleset {
+  rules: (ScanRule & {
+    isMatch: (relativePath: string) => boolean;
+    // For rules covering a whole folder (`**/.ssh/*`), matches the folder
+    isFolderMatch: (relativePath: string) => boolean;
+  })[];
+  exclude: string[];
+  isExcluded: (relativePath: string) => boolean;
+  keywords: string[];
+  detectors: SecretDetector[];
+  contentRules: SecretDetector[];  // From rule packs, checked in every readable file
+  markers: MarkerMatcher[];
+  allow: AllowEntry[];  // Applied to the results, so not part of the hash
+  hash: string;  // Changes whenever the rules do
+  projectPack?: ProjectRulePack;
+}
+
+// A rule pack that came with the scanned folder rather than from the user
+export interface ProjectRulePack {
+  path: string;
+  disable: string[];  // Built-in rule ids it asks to turn off
+  applied: boolean;   // Whether they are off: only if the user trusts project packs
+}
+
+export interface RulesetAdditions {
+  rules?: ScanRule[];
+  exclude?: string[];
+  keywords?: string[];
+  detectors?: SecretDetector[];
+  markers?: string[];
+  allow?: AllowEntry[];
+  disabled?: string[];             // Ids of built-in rules to drop
+}
+
+const MATCH_OPTIONS = { dot: true };
+
+export function buildRuleset(additions: RulesetAdditions = {}): Ruleset {
+  const disabled = new Set(additions.disabled ?? []);
+  const rules = [...BUILTIN_RULES, ...(additions.rules ?? [])]
+    .filter(rule => !disabled.has(rule.id))
+    // Stable, so high-confidence rules keep their order but come first
+    .sort((a, b) => (a.confidence === b.confidence ? 0 : a.confidence === 'high' ? -1 : 1));
+  const exclude = [...EXCLUDE_PATTERNS, ...(additions.exclude ?? [])];
+  const keywords = [...SECRET_KEYWORDS, ...(additions.keywords ?? []).map(k => k.toUpperCase())];
+  const markers = [...new Set([...DEFAULT_MARKERS, ...(additions.markers ?? [])])];
+  const detectors = [
+    ...SECRET_DETECTORS.filter(detector => !disabled.has(detector.id)),
+    ...(additions.detectors ?? []),
+  ];
+
+  const hash = createHash('sha256')
+    .update(JSON.stringify({
+      rules: rules.map(rule => ({ ...rule, contentCheck: rule.contentCheck?.source })),
+      exclude,
+      keywords,
+      markers,
+      detectors: detectors.map(detector => ({ ...detector, pattern: detector.pattern.source })),
+    }))
+    .digest('hex')
+    .slice(0, 16);
+
+  return {
+    rules: rules.map(rule => ({
+      ...rule,
+      isMatch: rule.folder ? () => false : picomatch(rule.pattern, MATCH_OPTIONS),
+      isFolderMatch: rule.folder ? picomatch(rule.pattern, MATCH_OPTIONS) : folderMatcher(rule.pattern),
+    })),
+    exclude,
+    isExcluded: picomatch(exclude, MATCH_OPTIONS),
+    keywords,
+    detectors,
+    contentRules: additions.detectors ?? [],
+    markers: compileMarkers(markers),
+    allow: additions.allow ?? [],
+    hash,
+  };
+}
+
+const FOLDER_GLOB_SUFFIX = /\/\*\*?$/;
+
+function folderMatcher(pattern: string): (relativePath: string) => boolean {
+  if (!FOLDER_GLOB_SUFFIX.test(pattern)) return () => false;
+  return picomatch(pattern.replace(FOLDER_GLOB_SUFFIX, ''), MATCH_OPTIONS);
+}
+
+let builtinRuleset: Ruleset | undefined;
+
+/**
+ * The rule a path falls under by its name and location alone, for
+ * callers that don't read files: the setup browser and the .clawignore
+ * writer. Folders match rules that cover everything inside them. With
+ * `isDirectory` unknown, file rules are tried first.
+ */
+export function matchPathRule(
+  path: string,
+  options: { isDirectory?: boolean; ruleset?: Ruleset } = {}
+): ScanRule | undefined {
+  const ruleset = options.ruleset ?? (builtinRuleset ??= buildRuleset());
+  const relativePath = path.replace(/^\/+|\/+$/g, '');
+  const { isDirectory } = options;
+
+  return (isDirectory !== true ? ruleset.rules.find(rule => rule.isMatch(relativePath)) : undefined)
+    ?? (isDirectory !== false ? ruleset.rules.find(rule => rule.isFolderMatch(relativePath)) : undefined);
+}
+
+export function isBuiltinRuleId(id: string): boolean {
+  return BUILTIN_RULES.some(rule => rule.id === id) || SECRET_DETECTORS.some(detector => detector.id === id);
+}
@@ -1,192 +1,636 @@
-import { globby } from 'globby';
-import { readFile } from 'fs/promises';
-import { join, relative } from 'path';
+import { open, readFile, stat } from 'fs/promises';
+import { createReadStream } from 'fs';
+import { createHash } from 'crypto';
+import { basename, join, relative } from 'path';
+import { buildPreview, detectSecrets, redactSecret, MAX_FINDINGS, SecretFinding } from './detectors.js';
+import {
+  DEFAULT_ENTROPY_THRESHOLDS,
+  EntropyThresholds,
+  findHighEntropyStrings,
+  isHighConfidenceEntropy,
+} from './entropy.js';
+import { Ruleset, ScanRule } from './scan-rules.js';
+import { loadRuleset } from './rule-packs.js';
+import { createLimiter, walkFiles, WalkProgress } from './walker.js';
+import { CachedResult, FileIdentity, isScanCacheEnabled, openScanCache, ScanCache } from './scan-cache.js';
+import {
+  ArchiveLimits,
+  DEFAULT_ARCHIVE_LIMITS,
+  ExpansionBudget,
+  isArchivePath,
+  listArchiveEntries,
+} from './archives.js';
+import { hasSqliteTables } from './app-data.js';
+import { assessSeverity, Severity, SEVERITIES } from './severity.js';
+import { assessPii, countPii, PiiCounts } from './pii.js';
+import { extractDocumentText, isDocumentPath, MAX_DOCUMENT_SIZE } from './documents.js';
+import { findMarkers } from './markers.js';
+import { findGitRepositories, HistoryBlob, listHistoryBlobs, readBlobs } from './git-history.js';
+import { AllowEntry, Allowlist, loadAllowlist } from './allowlist.js';
+import { BaselineState } from './baseline.js';
 
 export interface SensitiveFile {
   path: string;
-  relativePath: string;
+  relativePath: string;        // Ends in `/` for a folder reported as a whole
+  ruleId: string;
   reason: string;
-  category: 'secrets' | 'credentials' | 'keys' | 'config' | 'data';
+  category: 'secrets' | 'credentials' | 'keys' | 'config' | 'data' | 'app-data';
   confidence: 'high' | 'medium';
+  severity: Severity;
+  score: number;               // Risk score behind the severity, 0-100
+  explanation: string;         // Why it got that severity
+  fingerprint: string;         // Rule id and content hash, for allowlists
+  allowed?: string;            // The allowlist entry that matched, with showAllowed
+  baselineState?: BaselineState;  // Set when compared with a baseline
+  remediation?: string;        // For known tool credentials
+  findings?: SecretFinding[];  // Secrets found in the content, if any
+  pii?: PiiCounts;             // Personal data found, by type
+  markers?: string[];          // Classification markers found in a document
+  // Set when the file is inside an archive: `path` is then the archive on
+  // disk, this the entry in it, nested archives joined by `!/`
+  archiveEntry?: string;
+  // Set for content found only in git history: `path` is then the
+  // repository's .git folder
+  history?: { commit: string; path: string };
 }
 
-// Patterns that are almost always sensitive
-const HIGH_CONFIDENCE_PATTERNS = [
-  { pattern: '**/.env', reason: 'Environment variables file', category: 'secrets' as const },
-  { pattern: '**/.env.*', reason: 'Environment variables file', category: 'secrets' as const },
-  { pattern: '**/.env.local', reason: 'Local environment file', category: 'secrets' as const },
-  { pattern: '**/.env.production', reason: 'Production environment file', category: 'secrets' as const },
-  { pattern: '**/*.pem', reason: 'PEM certificate/key file', category: 'keys' as const },
-  { pattern: '**/*.key', reason: 'Private key file', category: 'keys' as const },
-  { pattern: '**/*.p12', reason: 'PKCS#12 certificate file', category: 'keys' as const },
-  { pattern: '**/*.pfx', reason: 'PFX certificate file', category: 'keys' as const },
-  { pattern: '**/id_rsa', reason: 'SSH private key', category: 'keys' as const },
-  { pattern: '**/id_rsa.*', reason: 'SSH key file', category: 'keys' as const },
-  { pattern: '**/id_ed25519', reason: 'SSH private key', category: 'keys' as const },
-  { pattern: '**/id_ecdsa', reason: 'SSH private key', category: 'keys' as const },
-  { pattern: '**/.ssh/*', reason: 'SSH directory', category: 'keys' as const },
-  { pattern: '**/secrets/**', reason: 'Secrets directory', category: 'secrets' as const },
-  { pattern: '**/credentials.json', reason: 'Credentials file', category: 'credentials' as const },
-  { pattern: '**/serviceAccountKey*.json', reason: 'Service account key', category: 'credentials' as const },
-  { pattern: '**/.aws/credentials', reason: 'AWS credentials', category: 'credentials' as const },
-  { pattern: '**/.aws/config', reason: 'AWS config', category: 'credentials' as const },
-  { pattern: '**/.gcp/**', reason: 'GCP config directory', category: 'credentials' as const },
-  { pattern: '**/terraform.tfvars', reason: 'Terraform variables', category: 'config' as const },
-  { pattern: '**/*.tfvars', reason: 'Terraform variables', category: 'config' as const },
-  { pattern: '**/.npmrc', reason: 'NPM config (may contain tokens)', category: 'credentials' as const },
-  { pattern: '**/.pypirc', reason: 'PyPI config (may contain tokens)', category: 'credentials' as const },
-  { pattern: '**/.docker/config.json', reason: 'Docker config', category: 'credentials' as const },
-  { pattern: '**/kubeconfig', reason: 'Kubernetes config', category: 'credentials' as const },
-  { pattern: '**/.kube/config', reason: 'Kubernetes config', category: 'credentials' as const },
-];
-
-// Patterns that might be sensitive - need content inspection
-const MEDIUM_CONFIDENCE_PATTERNS = [
-  { pattern: '**/config.json', reason: 'Config file (may contain secrets)', category: 'config' as const },
-  { pattern: '**/config/*.json', reason: 'Config file (may contain secrets)', category: 'config' as const },
-  { pattern: '**/settings.json', reason: 'Settings file (may contain secrets)', category: 'config' as const },
-  { pattern: '**/*secret*', reason: 'File with "secret" in name', category: 'secrets' as const },
-  { pattern: '**/*password*', reason: 'File with "password" in name', category: 'secrets' as const },
-  { pattern: '**/*credential*', reason: 'File with "credential" in name', category: 'credentials' as const },
-  { pattern: '**/*.sqlite', reason: 'SQLite database', category: 'data' as const },
-  { pattern: '**/*.db', reason: 'Database file', category: 'data' as const },
-];
-
-// Patterns to always exclude from scanning
-const EXCLUDE_PATTERNS = [
-  '**/node_modules/**',
-  '**/.git/**',
-  '**/dist/**',
-  '**/build/**',
-  '**/*.log',
-  '**/package-lock.json',
-  '**/yarn.lock',
-  '**/pnpm-lock.yaml',
-];
-
-// Keywords that indicate a file contains secrets
-const SECRET_KEYWORDS = [
-  'API_KEY',
-  'APIKEY',
-  'API_SECRET',
-  'SECRET_KEY',
-  'PRIVATE_KEY',
-  'ACCESS_TOKEN',
-  'AUTH_TOKEN',
-  'PASSWORD',
-  'DB_PASSWORD',
-  'DATABASE_URL',
-  'STRIPE_KEY',
-  'STRIPE_SECRET',
-  'AWS_ACCESS_KEY',
-  'AWS_SECRET',
-  'GITHUB_TOKEN',
-  'NPM_TOKEN',
-  'SLACK_TOKEN',
-  'DISCORD_TOKEN',
-  'TWILIO_',
-  'SENDGRID_',
-  'OPENAI_API_KEY',
-  'ANTHROPIC_API_KEY',
-];
-
-export async function scanForSensitiveFiles(workspace: string): Promise<SensitiveFile[]> {
+export interface ScanProgress {
+  directories: number;
+  files: number;
+  findings: number;
+}
+
+export interface ScannerOptions {
+  entropy?: Partial<EntropyThresholds>;
+  ruleset?: Ruleset;      // Defaults to the built-ins plus the rule packs for the root
+  maxDepth?: number;      // Directory levels below the root to descend
+  maxFileSize?: number;   // Larger files are matched by path only, never read
+  archives?: Partial<ArchiveLimits> | false;  // false: don't look inside archives
+  gitHistory?: boolean;   // Also read past commits of repositories under the root
+  showAllowed?: boolean;  // Keep allowlisted findings, marked `allowed`
+  onProgress?: (progress: ScanProgress) => void;
+  onAllowed?: (file: SensitiveFile, entry: AllowEntry) => void;
+}
+
+// Larger files are rarely hand-written config; don't read them whole
+export const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+// Enough of a SQLite file to hold its schema, whatever the file's size
+const SQLITE_HEAD_SIZE = 256 * 1024;
+const PROGRESS_INTERVAL_MS = 100;
+
+export async function scanForSensitiveFiles(
+  workspace: string,
+  options: ScannerOptions = {}
+): Promise<SensitiveFile[]> {
+  const context = await createContext(workspace, options);
   const sensitiveFiles: SensitiveFile[] = [];
-  const seenPaths = new Set<string>();
+  let lastReport = 0;
 
-  // Scan high confidence patterns
-  for (const { pattern, reason, category } of HIGH_CONFIDENCE_PATTERNS) {
-    try {
-      const matches = await globby(pattern, {
-        cwd: workspace,
-        ignore: EXCLUDE_PATTERNS,
-        dot: true,
-        absolute: true,
-      });
-
-      for (const match of matches) {
-        if (seenPaths.has(match)) continue;
-        seenPaths.add(match);
-
-        sensitiveFiles.push({
-          path: match,
-          relativePath: relative(workspace, match),
-          reason,
-          category,
-          confidence: 'high',
-        });
-      }
-    } catch {
-      // Ignore glob errors
+  // Results depend on the rules and settings as much as on the file
+  const cache = isScanCacheEnabled()
+    ? await openScanCache(JSON.stringify([
+      context.ruleset.hash,
+      context.thresholds,
+      context.maxFileSize,
+      context.archiveLimits,
+    ]))
+    : undefined;
+
+  const report = (progress: WalkProgress, force = false) => {
+    const now = Date.now();
+    if (!options.onProgress || (!force && now - lastReport < PROGRESS_INTERVAL_MS)) return;
+    lastReport = now;
+    options.onProgress({ ...progress, findings: sensitiveFiles.length });
+  };
+
+  // One walk, every rule checked per file
+  const progress = await walkFiles(
+    workspace,
+    async ({ path, relativePath, size, mtimeMs, ino, mode }) => {
+      const results = await classifyPath(path, relativePath, context, mode, cache && { cache, identity: { size, mtimeMs, ino } });
+      sensitiveFiles.push(...results);
+    },
+    {
+      maxDepth: options.maxDepth,
+      isExcluded: context.ruleset.isExcluded,
+      onDirectory: async ({ path, relativePath, mode }) => {
+        const rule = storeRule(relativePath, context);
+        if (rule) sensitiveFiles.push(storeFinding(rule, path, relativePath, mode));
+        return rule !== undefined;
+      },
+      onProgress: report,
+    }
+  );
+  report(progress, true);
+  await cache?.save();
+
+  if (options.gitHistory) {
+    for (const repository of await findGitRepositories(workspace, context.ruleset.isExcluded, options.maxDepth)) {
+      sensitiveFiles.push(...(await scanGitHistory(repository, workspace, context)));
     }
   }
 
-  // Scan medium confidence patterns
-  for (const { pattern, reason, category } of MEDIUM_CONFIDENCE_PATTERNS) {
-    try {
-      const matches = await globby(pattern, {
-        cwd: workspace,
-        ignore: EXCLUDE_PATTERNS,
-        dot: true,
-        absolute: true,
-      });
-
-      for (const match of matches) {
-        if (seenPaths.has(match)) continue;
-
-        // For medium confidence, check file contents
-        const hasSecrets = await fileContainsSecrets(match);
-        if (hasSecrets) {
-          seenPaths.add(match);
-          sensitiveFiles.push({
-            path: match,
-            relativePath: relative(workspace, match),
-            reason,
-            category,
-            confidence: 'medium',
-          });
-        }
-      }
-    } catch {
-      // Ignore glob errors
+  // Most severe first, then by category
+  sensitiveFiles.sort((a, b) =>
+    b.score - a.score || a.category.localeCompare(b.category) || formatFilePath(a).localeCompare(formatFilePath(b))
+  );
+
+  return applyAllowlist(sensitiveFiles, context.allowlist, options);
+}
+
+/**
+ * Classify a single file with the same rules as scanForSensitiveFiles.
+ * Used when files are checked one at a time, e.g. while watching.
+ */
+export async function classifyFile(
+  filePath: string,
+  root: string,
+  options: ScannerOptions = {}
+): Promise<SensitiveFile | null> {
+  const context = await createContext(root, options);
+  const relativePath = relative(root, filePath);
+  if (!relativePath || relativePath.startsWith('..') || context.ruleset.isExcluded(relativePath)) {
+    return null;
+  }
+
+  // A file in an application's data store stands for the whole store
+  const parts = relativePath.split('/');
+  for (let i = 1; i < parts.length; i++) {
+    const folder = parts.slice(0, i).join('/');
+    const rule = storeRule(folder, context);
+    if (rule) {
+      const folderStats = await stat(join(root, folder)).catch(() => null);
+      const [first] = applyAllowlist([storeFinding(rule, join(root, folder), folder, folderStats?.mode)], context.allowlist, options);
+      return first ?? null;
     }
   }
 
-  // Sort by confidence then category
-  sensitiveFiles.sort((a, b) => {
-    if (a.confidence !== b.confidence) {
-      return a.confidence === 'high' ? -1 : 1;
+  const stats = await stat(filePath).catch(() => null);
+  const results = await classifyPath(filePath, relativePath, context, stats?.mode);
+  const [first] = applyAllowlist(results, context.allowlist, options);
+  return first ?? null;
+}
+
+// Hide allowlisted findings, or mark them if they are to be shown
+function applyAllowlist(
+  files: SensitiveFile[],
+  allowlist: Allowlist,
+  { showAllowed, onAllowed }: ScannerOptions
+): SensitiveFile[] {
+  const results: SensitiveFile[] = [];
+  for (const file of files) {
+    const entry = allowlist.match(file);
+    if (!entry) {
+      results.push(file);
+      continue;
     }
-    return a.category.localeCompare(b.category);
+    onAllowed?.(file, entry);
+    if (showAllowed) results.push({ ...file, allowed: entry.pattern });
+  }
+  return results;
+}
+
+/**
+ * A file's own classification, plus one per sensitive entry if it is an
+ * archive.
+ */
+async function classifyPath(
+  filePath: string,
+  relativePath: string,
+  context: ScanContext,
+  mode?: number,
+  cached?: { cache: ScanCache; identity: FileIdentity }
+): Promise<SensitiveFile[]> {
+  const rules = matchingRules(relativePath, context);
+  const archive = context.archiveLimits !== null && isArchivePath(relativePath);
+  const contentRules = context.ruleset.contentRules.length > 0;
+  if (rules.length === 0 && !contentRules && !archive) return []; // Nothing to read, nothing to cache
+
+  let results = cached?.cache.get(filePath, cached.identity);
+  if (!results) {
+    results = [];
+    const own = await classifyContent(rules, {
+      text: () => readTextFile(filePath, context.maxFileSize),
+      head: () => readFileHead(filePath, SQLITE_HEAD_SIZE),
+      document: () => readDocument(filePath),
+      // Files matched by path may be unreadable, such as a locked keychain
+      hash: () => hashFile(filePath, context.maxFileSize).catch(() => sha256(relativePath)),
+      textHead: () => readTextHead(filePath, context.maxFileSize),
+    }, context);
+    if (own) results.push(own);
+    if (archive) results.push(...(await scanArchive(filePath, context)));
+    cached?.cache.set(filePath, cached.identity, results);
+  }
+
+  return results.map(result => withSeverity({ ...result, path: filePath, relativePath }, mode));
+}
+
+function withSeverity(
+  file: CachedResult & Pick<SensitiveFile, 'path' | 'relativePath'>,
+  mode?: number
+): SensitiveFile {
+  return { ...file, ...assessSeverity(file, mode) };
+}
+
+function storeRule(relativePath: string, context: ScanContext): ScanRule | undefined {
+  return context.ruleset.rules.find(rule => rule.store && rule.isFolderMatch(relativePath));
+}
+
+// Stores can hold thousands of files and gigabytes, so the folder is
+// reported once and its path stands in for the content
+function storeFinding(rule: ScanRule, path: string, relativePath: string, mode?: number): SensitiveFile {
+  return withSeverity({
+    path,
+    relativePath: `${relativePath}/`,
+    ruleId: rule.id,
+    reason: rule.reason,
+    category: rule.category,
+    confidence: rule.confidence,
+    fingerprint: fingerprint(rule.id, sha256(relativePath)),
+  }, mode);
+}
+
+function matchingRules(relativePath: string, context: ScanContext): ScanRule[] {
+  return context.ruleset.rules.filter(rule => rule.isMatch(relativePath));
+}
+
+// Where a file's content comes from: disk, an archive entry or a git blob
+interface ContentSource {
+  text: () => Promise<string | null>;   // null if binary or too large
+  head: () => Promise<Buffer | null>;   // The first bytes, for signatures
+  document: () => Promise<string | null>;  // The text of a PDF or office document
+  hash: () => Promise<string>;          // SHA-256 of the content, bounded for large files
+  textHead?: () => Promise<string | null>;  // The first lines of a file too large for `text`
+}
+
+interface ContentEvidence {
+  content: string | null;
+  inspection: ContentInspection;
+  head: Buffer | null;
+  pii: { counts: PiiCounts; lines: number } | null;
+  markers: string[];
+}
+
+// High confidence rules come first in the ruleset, so they win
+async function classifyContent(
+  rules: ScanRule[],
+  source: ContentSource,
+  context: ScanContext
+): Promise<CachedResult | null> {
+  if (rules.length === 0 && context.ruleset.contentRules.length === 0) return null;
+
+  const content = await source.text();
+  const inspection = content === null ? NOTHING_FOUND : inspectContent(content, context);
+  const head = rules.some(rule => rule.sqliteTables) ? await source.head() : null;
+  // Documents are judged by their extracted text, not the raw file, and
+  // large exports by their first lines
+  const text = rules.some(rule => rule.pii || rule.markers)
+    ? ((await source.document()) ?? content ?? (await source.textHead?.()) ?? null)
+    : null;
+  const pii = text !== null && rules.some(rule => rule.pii)
+    ? { counts: countPii(text), lines: text.split('\n').length }
+    : null;
+  const markers = text !== null && rules.some(rule => rule.markers) ? findMarkers(text, context.ruleset.markers) : [];
+  const evidence = { content, inspection, head, pii, markers };
+
+  for (const rule of rules) {
+    const result = applyRule(rule, evidence);
+    if (result) return { ...result, fingerprint: fingerprint(rule.id, await source.hash()) };
+  }
+
+  // Pack content rules need no path match
+  const detector = context.ruleset.contentRules.find(rule => inspection.findings.some(f => f.ruleId === rule.id));
+  if (!detector) return null;
+  return {
+    ruleId: detector.id,
+    reason: detector.name,
+    category: detector.category,
+    confidence: detector.confidence ?? 'high',
+    findings: inspection.findings,
+    fingerprint: fingerprint(detector.id, await source.hash()),
+  };
+}
+
+// Archives are read whole, so the walker's concurrency would hold many at once
+const MAX_OPEN_ARCHIVES = 2;
+const openArchives = createLimiter(MAX_OPEN_ARCHIVES);
+
+async function scanArchive(filePath: string, context: ScanContext): Promise<CachedResult[]> {
+  const limits = context.archiveLimits!;
+  const stats = await stat(filePath).catch(() => null);
+  if (!stats || stats.size > limits.maxArchiveSize) return [];
+
+  return openArchives(async () => {
+    const data = await readFile(filePath).catch(() => null);
+    if (!data) return [];
+    return scanArchiveData(basename(filePath), data, '', 1, { remaining: limits.maxExpandedSize }, context);
   });
+}
+
+/**
+ * Apply the filename rules and content detectors to every entry, and
+ * descend into nested archives up to the depth limit.
+ */
+async function scanArchiveData(
+  name: string,
+  data: Buffer,
+  prefix: string,
+  depth: number,
+  budget: ExpansionBudget,
+  context: ScanContext
+): Promise<CachedResult[]> {
+  const limits = context.archiveLimits!;
+  const results: CachedResult[] = [];
+
+  for (const entry of await listArchiveEntries(name, data, limits, budget)) {
+    if (context.ruleset.isExcluded(entry.name)) continue;
+    const entryPath = prefix + entry.name;
+    // Each read inflates again and charges the budget again, so read once
+    let content: Promise<Buffer | null> | undefined;
+    const read = () => (content ??= entry.read());
+
+    if (isArchivePath(entry.name) && depth < limits.maxDepth) {
+      const inner = await read();
+      if (inner) {
+        results.push(...(await scanArchiveData(entry.name, inner, `${entryPath}!/`, depth + 1, budget, context)));
+      }
+    }
 
-  return sensitiveFiles;
+    const result = await classifyContent(
+      matchingRules(entry.name, context),
+      {
+        text: async () => (entry.size > context.maxFileSize ? null : decodeText(await read())),
+        head: async () => (await read())?.subarray(0, SQLITE_HEAD_SIZE) ?? null,
+        document: async () => (entry.size > MAX_DOCUMENT_SIZE ? null : extractDocumentText(entry.name, await read())),
+        hash: async () => sha256((await read()) ?? entry.name),
+      },
+      context
+    );
+    if (result) {
+      results.push({ ...result, archiveEntry: entryPath });
+    }
+  }
+
+  return results;
 }
 
-async function fileContainsSecrets(filePath: string): Promise<boolean> {
-  try {
-    const content = await readFile(filePath, 'utf-8');
-    const upperContent = content.toUpperCase();
+/**
+ * Content committed at some point but no longer checked out, such as a
+ * .env added and later deleted. It stays readable through `.git`.
+ */
+async function scanGitHistory(repository: string, root: string, context: ScanContext): Promise<SensitiveFile[]> {
+  const gitDir = join(repository, '.git');
+  const blobs = await listHistoryBlobs(repository);
+  const bySha = new Map<string, HistoryBlob[]>();
+  for (const blob of blobs) {
+    bySha.set(blob.sha, [...(bySha.get(blob.sha) ?? []), blob]);
+  }
+
+  const results: SensitiveFile[] = [];
+  await readBlobs(repository, [...bySha.keys()], context.maxFileSize, async (sha, data) => {
+    const content = decodeText(data);
+    if (content === null) return;
 
-    for (const keyword of SECRET_KEYWORDS) {
-      if (upperContent.includes(keyword)) {
-        return true;
+    for (const blob of bySha.get(sha) ?? []) {
+      if (context.ruleset.isExcluded(blob.path)) continue;
+
+      // Without a matching filename rule, only certain secrets count;
+      // keywords turn up in every codebase's history
+      let result = await classifyContent(
+        matchingRules(blob.path, context),
+        { text: async () => content, head: async () => data, document: async () => null, hash: async () => sha256(data) },
+        context
+      );
+      if (!result) {
+        const inspection = inspectContent(content, context);
+        const named = inspection.findings.find(f => f.ruleId !== 'high-entropy-string') ?? inspection.findings[0];
+        if (inspection.confidence !== 'high' || !named) continue;
+        result = {
+          ruleId: named.ruleId,
+          reason: named.name,
+          category: context.ruleset.detectors.find(d => d.id === named.ruleId)?.category ?? 'secrets',
+          confidence: 'high',
+          findings: inspection.findings,
+          fingerprint: fingerprint(named.ruleId, sha256(data)),
+        };
       }
+
+      results.push(withSeverity({
+        ...result,
+        path: gitDir,
+        relativePath: relative(root, gitDir),
+        history: { commit: blob.commit, path: blob.path },
+      }));
     }
+  });
+
+  return results;
+}
+
+interface ScanContext {
+  ruleset: Ruleset;
+  allowlist: Allowlist;
+  thresholds: EntropyThresholds;
+  maxFileSize: number;
+  archiveLimits: ArchiveLimits | null;
+}
+
+async function createContext(root: string, options: ScannerOptions): Promise<ScanContext> {
+  const ruleset = options.ruleset ?? (await loadRuleset(root));
+  return {
+    ruleset,
+    allowlist: await loadAllowlist(root, ruleset.allow),
+    thresholds: { ...DEFAULT_ENTROPY_THRESHOLDS, ...options.entropy },
+    maxFileSize: options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE,
+    archiveLimits: options.archives === false ? null : { ...DEFAULT_ARCHIVE_LIMITS, ...options.archives },
+  };
+}
+
+/**
+ * Decide whether a file whose path matches `rule` is sensitive.
+ */
+function applyRule(
+  rule: ScanRule,
+  { content, inspection, head, pii, markers }: ContentEvidence
+): Omit<CachedResult, 'fingerprint'> | null {
+  const { confidence, findings } = inspection;
+  if (rule.sqliteTables && !(head && hasSqliteTables(head, rule.sqliteTables))) return null;
+
+  const base = {
+    ruleId: rule.id,
+    reason: rule.reason,
+    category: rule.category,
+    ...(rule.remediation && { remediation: rule.remediation }),
+    ...(findings.length > 0 && { findings }),
+    // Personal data is worth knowing about whichever rule reports the file
+    ...(pii && assessPii(pii.counts, pii.lines) && { pii: pii.counts }),
+  };
+
+  if (rule.markers) {
+    return markers.length > 0 ? { ...base, confidence: 'high', markers } : null;
+  }
+  if (rule.pii) {
+    const level = pii && assessPii(pii.counts, pii.lines);
+    return level ? { ...base, confidence: level } : null;
+  }
+  if (rule.contentCheck) {
+    if (content === null || !rule.contentCheck.test(content)) return null;
+    return { ...base, confidence: confidence === 'high' ? 'high' : rule.confidence };
+  }
+  if (rule.confidence === 'high') {
+    return { ...base, confidence: 'high' };
+  }
+  // For medium confidence, the contents decide
+  return confidence ? { ...base, confidence } : null;
+}
+
+function decodeText(data: Buffer | null): string | null {
+  if (!data || data.includes(0)) return null; // Unreadable or binary
+  return data.toString('utf-8');
+}
 
-    // Check for patterns that look like API keys
-    // Long alphanumeric strings after = or :
-    const keyPattern = /[=:]\s*['"]?[a-zA-Z0-9_-]{32,}['"]?/;
-    if (keyPattern.test(content)) {
-      return true;
+async function readTextFile(filePath: string, maxFileSize: number): Promise<string | null> {
+  try {
+    const stats = await stat(filePath);
+    if (!stats.isFile() || stats.size > maxFileSize) {
+      return null;
     }
 
-    return false;
+    const content = await readFile(filePath, 'utf-8');
+    return content.includes('\0') ? null : content; // Binary
+  } catch {
+    return null;
+  }
+}
+
+// The first `length` bytes of a text file, up to the last whole line
+async function readTextHead(filePath: string, length: number): Promise<string | null> {
+  const text = decodeText(await readFileHead(filePath, length));
+  if (text === null) return null;
+  const end = text.lastIndexOf('\n');
+  return end > 0 ? text.slice(0, end) : text;
+}
+
+async function readDocument(filePath: string): Promise<string | null> {
+  if (!isDocumentPath(filePath)) return null;
+  try {
+    const stats = await stat(filePath);
+    if (stats.size > MAX_DOCUMENT_SIZE) return null;
+    return await extractDocumentText(filePath, await readFile(filePath));
   } catch {
-    return false;
+    return null;
   }
 }
 
+async function readFileHead(filePath: string, length: number): Promise<Buffer | null> {
+  try {
+    const handle = await open(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, 0);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    return null;
+  }
+}
+
+function sha256(data: Buffer | string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+// Files matched by path alone can be multi-gigabyte databases, so those
+// over `maxBytes` are hashed by their size and first `maxBytes` bytes
+async function hashFile(filePath: string, maxBytes: number): Promise<string> {
+  const { size } = await stat(filePath);
+  const hash = createHash('sha256');
+  if (size > maxBytes) hash.update(`${size}\0`);
+  for await (const chunk of createReadStream(filePath, { end: maxBytes - 1 })) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * A finding's rule id and a short hash of the content. It stays the same
+ * when the file moves and changes when the content does.
+ */
+function fingerprint(ruleId: string, contentHash: string): string {
+  return `${ruleId}:${contentHash.slice(0, 16)}`;
+}
+
+interface ContentInspection {
+  // How sure the content is sensitive, null if nothing suggests it
+  confidence: SensitiveFile['confidence'] | null;
+  findings: SecretFinding[];
+}
+
+const NOTHING_FOUND: ContentInspection = { confidence: null, findings: [] };
+
+/**
+ * Known token formats make a file certainly sensitive. Unknown tokens are
+ * judged by entropy: far above the threshold counts as high confidence,
+ * just above it as medium. Keywords alone are a medium signal.
+ */
+function inspectContent(content: string, { ruleset, thresholds }: ScanContext): ContentInspection {
+  const findings = detectSecrets(content, ruleset.detectors);
+  const detectedLines = new Set(findings.map(f => f.line));
+  const lines = content.split('\n');
+  let strongEntropy = false;
+
+  for (const candidate of findHighEntropyStrings(content, thresholds)) {
+    if (findings.length >= MAX_FINDINGS) break;
+    if (detectedLines.has(candidate.line)) continue; // Already named by a detector
+    strongEntropy ||= isHighConfidenceEntropy(candidate, thresholds);
+
+    findings.push({
+      ruleId: 'high-entropy-string',
+      name: `High-entropy ${candidate.kind} string`,
+      line: candidate.line,
+      column: candidate.column,
+      preview: buildPreview(
+        lines[candidate.line - 1],
+        candidate.column - 1,
+        candidate.value,
+        redactSecret(candidate.value, 2)
+      ),
+      entropy: Math.round(candidate.entropy * 100) / 100,
+    });
+  }
+  findings.sort((a, b) => a.line - b.line || a.column - b.column);
+
+  // Pack content rules may ask for medium confidence
+  const medium = new Set(ruleset.detectors.filter(d => d.confidence === 'medium').map(d => d.id));
+  const named = findings.some(f => f.ruleId !== 'high-entropy-string' && !medium.has(f.ruleId));
+  if (named || strongEntropy) {
+    return { confidence: 'high', findings };
+  }
+  if (findings.length > 0) {
+    return { confidence: 'medium', findings };
+  }
+
+  const upperContent = content.toUpperCase();
+  for (const keyword of ruleset.keywords) {
+    if (upperContent.includes(keyword)) {
+      return { confidence: 'medium', findings };
+    }
+  }
+
+  return NOTHING_FOUND;
+}
+
+/**
+ * Where a finding is, for display: `backup.zip!/prod/.env` for archive
+ * entries, `app/.git@<commit>:.env` for git history. Relative to the scan root unless `absolute` is set.
+ */
+export function formatFilePath(file: SensitiveFile, absolute = false): string {
+  const path = absolute ? file.path : file.relativePath;
+  if (file.history) return `${path}@${file.history.commit.slice(0, 12)}:${file.history.path}`;
+  return file.archiveEntry ? `${path}!/${file.archiveEntry}` : path;
+}
+
 export function getCategoryIcon(category: SensitiveFile['category']): string {
   switch (category) {
     case 'secrets': return '🔴';
@@ -194,17 +638,23 @@ export function getCategoryIcon(category: SensitiveFile['category']): string {
     case 'keys': return '🔴';
     case 'config': return '🟡';
     case 'data': return '🟡';
+    case 'app-data': return '🟣';
     default: return '⚪';
   }
 }
 
-export function groupByCategory(files: SensitiveFile[]): Map<string, SensitiveFile[]> {
-  const groups = new Map<string, SensitiveFile[]>();
+export function getCategoryLabel(category: SensitiveFile['category']): string {
+  if (category === 'app-data') return 'Application data';
+  return category.charAt(0).toUpperCase() + category.slice(1);
+}
 
-  for (const file of files) {
-    const existing = groups.get(file.category) || [];
-    existing.push(file);
-    groups.set(file.category, existing);
+// Most severe group first
+export function groupBySeverity(files: SensitiveFile[]): Map<Severity, SensitiveFile[]> {
+  const groups = new Map<Severity, SensitiveFile[]>();
+
+  for (const severity of SEVERITIES) {
+    const matching = files.filter(file => file.severity === severity);
+    if (matching.length > 0) groups.set(severity, matching);
   }
 
   return groups;
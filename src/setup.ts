@@ -0,0 +1,443 @@
+import * as p from '@clack/prompts';
+import pc from 'picocolors';
+import { join, resolve } from 'path';
+import { parseArgs } from 'util';
+import {
+  checkDocker,
+  getOpenClawWorkspace,
+  findDockerComposeFile,
+  modifyDockerCompose,
+  restartOpenClaw,
+  getSessionsDir,
+  hasOldSessions,
+  clearOldSessions,
+  stopNativeOpenClaw,
+  startOpenClaw,
+} from './docker.js';
+import { scanForSensitiveFiles, SensitiveFile } from './scanner.js';
+import { runWizard, runDockerHelpWizard, printFindingsOverview } from './wizard.js';
+import { writeClawignore } from './writer.js';
+import { getGlobalOptions, errorMessage } from './output.js';
+import { EXIT_OK, EXIT_ERROR, EXIT_USAGE } from './exit-codes.js';
+import { BaselineEntry, compareWithBaseline, readBaseline } from './baseline.js';
+
+/**
+ * The interactive setup wizard, run by `clawignore` without a command.
+ * `--baseline <file>` limits the overview of findings to what changed
+ * since `scan --update-baseline` wrote it.
+ */
+export async function runSetup(args: string[]): Promise<number> {
+  let baselinePath: string | undefined;
+  try {
+    const { values } = parseArgs({ args, options: { baseline: { type: 'string' } }, strict: true });
+    baselinePath = values.baseline && resolve(values.baseline);
+  } catch (err) {
+    p.log.error(errorMessage(err));
+    return EXIT_USAGE;
+  }
+
+  let baseline: BaselineEntry[] | null = null;
+  if (baselinePath) {
+    try {
+      baseline = await readBaseline(baselinePath);
+    } catch (err) {
+      p.log.error(errorMessage(err));
+      return EXIT_ERROR;
+    }
+    if (!baseline) {
+      p.log.warn(`No baseline at ${baselinePath}; showing every finding`);
+    }
+  }
+
+  await main(baseline);
+  return EXIT_OK;
+}
+
+// What changed since the baseline, for the overview
+function compareFindings(files: SensitiveFile[], baseline: BaselineEntry[] | null) {
+  return baseline ? compareWithBaseline(files, baseline) : undefined;
+}
+
+async function main(baseline: BaselineEntry[] | null) {
+  if (process.stdout.isTTY && !getGlobalOptions().quiet) {
+    console.clear();
+  }
+
+  p.intro(pc.cyan('🦞 Clawignore Setup'));
+
+  const s = p.spinner();
+  s.start('Checking your OpenClaw setup...');
+
+  const dockerStatus = await checkDocker();
+  const { root } = getGlobalOptions();
+  const workspace = root ? join(resolve(root), 'workspace') : await getOpenClawWorkspace();
+
+  s.stop('Setup check complete');
+
+  // Handle non-Docker users
+  if (!dockerStatus.installed) {
+    await handleNoDocker('not_installed');
+    return;
+  }
+
+  if (!dockerStatus.running) {
+    await handleNoDocker('not_running');
+    return;
+  }
+
+  if (!dockerStatus.openclawRunning) {
+    p.log.warn('OpenClaw is not currently running in Docker.');
+    const continueAnyway = await p.confirm({
+      message: 'Continue with setup anyway?',
+    });
+    if (p.isCancel(continueAnyway) || !continueAnyway) {
+      p.cancel('Setup cancelled');
+      process.exit(0);
+    }
+  }
+
+  if (!workspace) {
+    p.log.error('Could not find OpenClaw workspace directory.');
+    p.log.info(`Expected location: ~/openclaw/workspace or ~/.openclaw/workspace`);
+    p.cancel('Setup cancelled');
+    process.exit(1);
+  }
+
+  p.log.success(`Found workspace: ${pc.dim(workspace)}`);
+
+  // Check if docker-compose.yml exists
+  const composePath = await findDockerComposeFile();
+
+  // Ask user what they want to do
+  console.log('');
+  const setupMode = await p.select({
+    message: 'What would you like to do?',
+    options: [
+      {
+        value: 'full',
+        label: 'Browse my Mac and choose what to mount',
+        hint: 'recommended - full control',
+      },
+      {
+        value: 'quick',
+        label: 'Quick setup - just block sensitive files in workspace',
+        hint: 'faster',
+      },
+    ],
+  });
+
+  if (p.isCancel(setupMode)) {
+    p.cancel('Setup cancelled');
+    process.exit(0);
+  }
+
+  if (setupMode === 'full') {
+    await runDockerSetupWithClawignore(workspace, baseline);
+    return;
+  }
+
+  // Quick setup: just scan workspace for sensitive files
+  if (!composePath) {
+    p.log.warn('No docker-compose.yml found. Quick setup requires an existing Docker configuration.');
+    p.log.info('Switching to full setup mode...');
+    await runDockerSetupWithClawignore(workspace, baseline);
+    return;
+  }
+
+  // Scan for sensitive files
+  s.start('Scanning for sensitive files...');
+  const sensitiveFiles = await scanForSensitiveFiles(workspace, {
+    onProgress: ({ directories, findings }) =>
+      s.message(`Scanning for sensitive files... (${directories} folders, ${findings} found)`),
+  });
+  s.stop(`Found ${sensitiveFiles.length} potentially sensitive files`);
+
+  // Run the interactive wizard
+  const selectedFiles = await runWizard(sensitiveFiles, workspace, compareFindings(sensitiveFiles, baseline));
+
+  if (selectedFiles.length === 0) {
+    p.log.warn('No files selected to ignore.');
+    const continueEmpty = await p.confirm({
+      message: 'Create an empty .clawignore file?',
+    });
+    if (p.isCancel(continueEmpty) || !continueEmpty) {
+      p.cancel('Setup cancelled');
+      process.exit(0);
+    }
+  }
+
+  // Write the .clawignore file
+  const clawignorePath = await writeClawignore(workspace, selectedFiles);
+  p.log.success(`Created ${pc.green('.clawignore')} with ${selectedFiles.length} entries`);
+
+  // Modify docker-compose.yml to respect .clawignore
+  s.start('Updating Docker configuration...');
+  const dockerModified = await modifyDockerCompose(workspace, selectedFiles);
+  if (dockerModified) {
+    s.stop('Docker configuration updated');
+  } else {
+    s.stop('Docker configuration unchanged (manual update may be needed)');
+  }
+
+  // Restart OpenClaw
+  const shouldRestart = await p.confirm({
+    message: 'Restart OpenClaw now to apply changes?',
+    initialValue: true,
+  });
+
+  if (p.isCancel(shouldRestart)) {
+    p.cancel('Setup cancelled');
+    process.exit(0);
+  }
+
+  // Get the OpenClaw root directory (workspace parent)
+  const openclawRoot = workspace.replace(/\/workspace\/?$/, '');
+  const restartCmd = `cd ${openclawRoot} && docker compose restart`;
+
+  let restarted = false;
+  if (shouldRestart) {
+    s.start('Restarting OpenClaw...');
+    restarted = await restartOpenClaw();
+    if (restarted) {
+      s.stop('OpenClaw restarted successfully');
+    } else {
+      s.stop('Could not restart automatically');
+      p.log.info('Run manually from your OpenClaw directory:');
+      p.log.info(pc.cyan(`  ${restartCmd}`));
+    }
+  }
+
+  // Summary
+  console.log('');
+  const restartStatus = !shouldRestart
+    ? `${pc.yellow('!')} Restart required to apply changes`
+    : restarted
+    ? `${pc.green('✓')} OpenClaw restarted`
+    : `${pc.yellow('!')} Manual restart needed: ${restartCmd}`;
+
+  p.note(
+    [
+      `${pc.green('✓')} .clawignore created at ${clawignorePath}`,
+      `${pc.green('✓')} ${selectedFiles.length} files/patterns blocked`,
+      dockerModified ? `${pc.green('✓')} Docker mounts updated` : `${pc.yellow('!')} Docker mounts need manual update`,
+      restartStatus,
+    ].join('\n'),
+    'Summary'
+  );
+
+  p.outro(pc.green('Setup complete! Your secrets are now protected.'));
+}
+
+async function handleNoDocker(reason: 'not_installed' | 'not_running') {
+  if (reason === 'not_installed') {
+    p.log.warn('Docker not detected.');
+  } else {
+    p.log.warn('Docker is installed but not running.');
+  }
+
+  console.log('');
+  console.log(pc.dim('  clawignore requires Docker to securely block files from AI access.'));
+  console.log(pc.dim('  Without Docker, the AI can bypass blocks using shell commands.'));
+  console.log('');
+
+  await runDockerHelpWizard(reason);
+}
+
+async function runDockerSetupWithClawignore(workspace: string, baseline: BaselineEntry[] | null) {
+  const openclawRoot = workspace.replace(/\/workspace\/?$/, '');
+  const { homedir } = await import('os');
+  const home = homedir();
+
+  // Step 1: Scan entire Mac for sensitive files
+  const s = p.spinner();
+  s.start('Scanning your Mac for sensitive files...');
+  const sensitiveFiles = await scanForSensitiveFiles(home, {
+    onProgress: ({ directories, findings }) =>
+      s.message(`Scanning your Mac for sensitive files... (${directories} folders, ${findings} found)`),
+  });
+  s.stop(`Found ${sensitiveFiles.length} potentially sensitive files`);
+
+  // Step 2: Show detected sensitive files and ask what to do
+  let preSelectedPaths: string[] = [];
+
+  if (sensitiveFiles.length > 0) {
+    // Display found files grouped by severity
+    const changes = compareFindings(sensitiveFiles, baseline);
+    printFindingsOverview(changes?.files ?? sensitiveFiles, { absolute: true, baseline: changes?.comparison });
+
+    const blockChoice = await p.select({
+      message: 'Block all detected sensitive files?',
+      options: [
+        { value: 'all', label: 'Yes, block all detected files', hint: 'recommended' },
+        { value: 'choose', label: 'Let me review in the browser' },
+        { value: 'skip', label: 'Skip auto-detection, I\'ll choose manually' },
+      ],
+    });
+
+    if (p.isCancel(blockChoice)) {
+      p.cancel('Setup cancelled');
+      process.exit(0);
+    }
+
+    if (blockChoice === 'all') {
+      preSelectedPaths = sensitiveFiles.map(f => f.path);
+    } else if (blockChoice === 'choose') {
+      // Will be pre-selected in the browser
+      preSelectedPaths = sensitiveFiles.map(f => f.path);
+    }
+    // 'skip' means preSelectedPaths stays empty
+  }
+
+  // Step 3: Open browser for additional selection
+  p.log.info('Opening file browser to select additional files to hide...');
+  p.log.info(pc.dim('Sensitive files are pre-selected. You can add/remove as needed.'));
+  console.log('');
+
+  const { browseAndSelectIgnored } = await import('./browser.js');
+
+  let browseResult: { ignoredPaths: string[]; mountPaths: string[] };
+  try {
+    browseResult = await browseAndSelectIgnored(preSelectedPaths);
+  } catch (err) {
+    p.log.error('Could not open file browser.');
+    p.cancel('Setup cancelled');
+    process.exit(1);
+  }
+
+  const { ignoredPaths, mountPaths } = browseResult;
+
+  if (mountPaths.length === 0) {
+    p.log.warn('No folders selected. Cancelled.');
+    process.exit(0);
+  }
+
+  p.log.success(`${pc.green(mountPaths.length + ' folders')} will be accessible to OpenClaw`);
+  p.log.success(`${pc.red(ignoredPaths.length + ' items')} will be HIDDEN`);
+
+  // Generate docker-compose.yml
+  const s2 = p.spinner();
+  s2.start('Generating docker-compose.yml...');
+
+  const { generateDockerCompose } = await import('./docker-generator.js');
+
+  const { composePath, envPath, clawignorePath } = await generateDockerCompose({
+    openclawRoot,
+    mountPaths,
+    ignoredPaths,
+  });
+
+  s2.stop('Docker configuration generated');
+
+  // Check for old sessions with incompatible paths
+  const sessionsDir = getSessionsDir(openclawRoot);
+
+  if (await hasOldSessions(openclawRoot)) {
+    console.log('');
+    p.log.warn('Found existing session data with host paths.');
+    console.log(pc.dim('  Old sessions contain paths like /Users/... which don\'t work inside Docker.'));
+    console.log(pc.dim('  Clearing them prevents "permission denied" errors.'));
+    console.log('');
+
+    const clearSessions = await p.confirm({
+      message: 'Clear old session data? (Recommended for Docker)',
+      initialValue: true,
+    });
+
+    if (!p.isCancel(clearSessions) && clearSessions) {
+      if (await clearOldSessions(openclawRoot)) {
+        p.log.success('Cleared old sessions');
+      } else {
+        p.log.warn('Could not clear sessions automatically. You may need to run:');
+        console.log(pc.cyan(`  rm -rf ${sessionsDir}`));
+      }
+    }
+  }
+
+  // Show summary
+  console.log('');
+  const summaryLines = [
+    `${pc.green('✓')} docker-compose.yml created at ${composePath}`,
+    `${pc.green('✓')} .env created at ${envPath}`,
+    `${pc.green('✓')} .clawignore created at ${clawignorePath}`,
+    '',
+    pc.bold('Mounted folders (accessible to AI):'),
+  ];
+
+  for (const path of mountPaths.slice(0, 5)) {
+    summaryLines.push(`  ${pc.green('✓')} ${path}`);
+  }
+  if (mountPaths.length > 5) {
+    summaryLines.push(pc.dim(`  ... and ${mountPaths.length - 5} more`));
+  }
+
+  if (ignoredPaths.length > 0) {
+    summaryLines.push('');
+    summaryLines.push(pc.bold('Hidden folders (NOT accessible):'));
+    for (const path of ignoredPaths.slice(0, 5)) {
+      summaryLines.push(`  ${pc.red('✗')} ${path}`);
+    }
+    if (ignoredPaths.length > 5) {
+      summaryLines.push(pc.dim(`  ... and ${ignoredPaths.length - 5} more`));
+    }
+  }
+
+  p.note(summaryLines.join('\n'), 'Setup Complete');
+
+  console.log('');
+  p.log.step(pc.bold('Next steps:'));
+  console.log('');
+  console.log(pc.dim('  1. Stop your current OpenClaw CLI (if running)'));
+  console.log('');
+  console.log(pc.dim('  2. Start OpenClaw in Docker:'));
+  console.log(pc.cyan(`     cd ${openclawRoot}`));
+  console.log(pc.cyan('     docker compose up -d'));
+  console.log('');
+  console.log(pc.dim('  3. View logs:'));
+  console.log(pc.cyan('     docker compose logs -f openclaw-gateway'));
+  console.log('');
+  console.log(pc.dim('  4. To stop:'));
+  console.log(pc.cyan('     docker compose down'));
+  console.log('');
+
+  // Ask if they want to start now
+  const startNow = await p.confirm({
+    message: 'Start OpenClaw in Docker now?',
+    initialValue: true,
+  });
+
+  if (!p.isCancel(startNow) && startNow) {
+    // Stop any non-Docker OpenClaw processes first
+    const s3 = p.spinner();
+    s3.start('Stopping any running OpenClaw CLI instances...');
+    try {
+      const { stoppedService, killedProcesses } = await stopNativeOpenClaw();
+      if (stoppedService || killedProcesses > 0) {
+        s3.stop(`Stopped OpenClaw CLI${stoppedService ? ' (launchd service unloaded)' : ''}`);
+      } else {
+        s3.stop('No running CLI instances found');
+      }
+    } catch {
+      s3.stop('No running instances found');
+    }
+
+    const s4 = p.spinner();
+    s4.start('Starting OpenClaw in Docker...');
+    try {
+      await startOpenClaw(openclawRoot);
+      s4.stop('OpenClaw started successfully!');
+
+      console.log('');
+      p.log.success(`OpenClaw is now running with secure .clawignore enforcement`);
+      console.log('');
+      console.log(pc.dim('  Dashboard: ') + pc.cyan('http://localhost:18789'));
+      console.log(pc.dim('  Logs: ') + pc.cyan(`cd ${openclawRoot} && docker compose logs -f`));
+    } catch (err) {
+      s4.stop('Failed to start Docker');
+      p.log.error('Could not start Docker automatically');
+      console.log(pc.dim('  Run manually:'));
+      console.log(pc.cyan(`  cd ${openclawRoot} && docker compose up -d`));
+    }
+  }
+
+  p.outro(pc.green('Your secrets are now protected!'));
+}
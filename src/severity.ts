@@ -0,0 +1,118 @@
+import { SensitiveFile } from './scanner.js';
+import { formatPiiCounts, hasStrongPii } from './pii.js';
+
+export type Severity = 'critical' | 'high' | 'medium' | 'low' | 'info';
+
+// Most severe first
+export const SEVERITIES: Severity[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+export interface SeverityAssessment {
+  severity: Severity;
+  score: number;         // 0-100
+  explanation: string;   // The factors behind the score
+}
+
+// Lowest score for each level
+const SEVERITY_SCORES: [Severity, number][] = [
+  ['critical', 85],
+  ['high', 60],
+  ['medium', 40],
+  ['low', 20],
+  ['info', 0],
+];
+
+// Tokens that usually work as-is; JWTs tend to expire quickly
+const SHORT_LIVED_DETECTORS = new Set(['jwt']);
+
+const EXAMPLE_PATH = /(^|[/._-])(examples?|samples?|templates?|tests?|fixtures?|mocks?|dummy)([/._-]|$)/i;
+const PRODUCTION_PATH = /(^|[/._-])(prod|production|live)([/._-]|$)/i;
+
+type Assessable = Pick<SensitiveFile, 'relativePath' | 'reason' | 'category' | 'confidence' | 'findings' | 'pii' | 'markers' | 'archiveEntry' | 'history'>;
+
+/**
+ * Score a finding from what matched it, what its content shows, who can
+ * read it and where it lives. `mode` is the file's permission bits, if
+ * known.
+ */
+export function assessSeverity(file: Assessable, mode?: number): SeverityAssessment {
+  const factors: string[] = [];
+  let score = 0;
+
+  if (file.confidence === 'high') {
+    score += 50;
+    factors.push(file.reason);
+  } else {
+    score += 25;
+    factors.push(`${file.reason}, unconfirmed`);
+  }
+
+  const findings = file.findings ?? [];
+  const named = findings.find(f => f.ruleId !== 'high-entropy-string');
+  if (named && !SHORT_LIVED_DETECTORS.has(named.ruleId)) {
+    score += 35;
+    factors.push(`contains ${named.name}`);
+  } else if (named) {
+    score += 20;
+    factors.push(`contains ${named.name}`);
+  } else if (findings.length > 0) {
+    score += 15;
+    factors.push('contains a random-looking value');
+  }
+
+  if (file.markers) {
+    score += 20;
+    factors.push(`marked ${file.markers.map(marker => `"${marker}"`).join(', ')}`);
+  }
+
+  if (file.pii) {
+    score += hasStrongPii(file.pii) ? 35 : 15;
+    factors.push(`contains ${formatPiiCounts(file.pii)}`);
+  }
+
+  if (file.category === 'keys' || file.category === 'credentials') {
+    score += 10;
+  } else if (file.category === 'app-data') {
+    score += 5;
+  }
+
+  // Other local users (and services running as them) can read it
+  if (mode !== undefined && mode & 0o004 && file.category !== 'config' && file.category !== 'data') {
+    score += 10;
+    factors.push('readable by every user');
+  }
+
+  const location = [file.relativePath, file.archiveEntry, file.history?.path].filter(Boolean).join('/');
+  if (EXAMPLE_PATH.test(location)) {
+    score -= 30;
+    factors.push('looks like an example or test file');
+  } else if (PRODUCTION_PATH.test(location)) {
+    score += 10;
+    factors.push('production file');
+  }
+  if (file.history) {
+    score -= 5;
+    factors.push('only in git history');
+  }
+
+  score = Math.max(0, Math.min(100, score));
+  const severity = SEVERITY_SCORES.find(([, min]) => score >= min)![0];
+  return { severity, score, explanation: factors.join('; ') };
+}
+
+export function compareSeverity(a: Severity, b: Severity): number {
+  return SEVERITIES.indexOf(a) - SEVERITIES.indexOf(b);
+}
+
+export function isAtLeast(severity: Severity, threshold: Severity): boolean {
+  return compareSeverity(severity, threshold) <= 0;
+}
+
+export function getSeverityIcon(severity: Severity): string {
+  switch (severity) {
+    case 'critical': return '🔴';
+    case 'high': return '🟠';
+    case 'medium': return '🟡';
+    case 'low': return '🔵';
+    case 'info': return '⚪';
+  }
+}
@@ -0,0 +1,244 @@
+import pc from 'picocolors';
+import { parseArgs } from 'util';
+import { join } from 'path';
+import { homedir } from 'os';
+import { readFile } from 'fs/promises';
+import { parse as parseYaml } from 'yaml';
+import { createIgnoreMatcher, readIgnoreRules, IgnoreRule } from './clawignore.js';
+import { explainPath } from './check-ignore.js';
+import { CONFIG_HASH_LABEL, verifyComposeChecksum } from './docker-generator.js';
+import {
+  readComposeVolumes,
+  resolveOpenClawRoot,
+  inspectContainer,
+  getContainerRuntime,
+  ContainerInfo,
+  VolumeMount,
+} from './docker.js';
+
+import { getGlobalOptions, log, errorMessage, printJson } from './output.js';
+import { EXIT_OK, EXIT_ERROR, EXIT_USAGE, EXIT_PROBLEMS } from './exit-codes.js';
+
+const CONTAINER_NAME = 'openclaw-gateway';
+
+export type DriftKind =
+  | 'ignored-path-in-compose'
+  | 'ignored-path-in-container'
+  | 'compose-modified'
+  | 'container-outdated';
+
+export interface DriftIssue {
+  kind: DriftKind;
+  message: string;
+}
+
+export interface StatusReport {
+  openclawRoot: string;
+  clawignore: { path: string; rules: IgnoreRule[] };
+  compose: {
+    path: string;
+    found: boolean;
+    checksum: 'ok' | 'modified' | 'unknown';
+    configHash?: string;
+    volumes: VolumeMount[];
+  };
+  runtime: string;
+  container: ContainerInfo | null;
+  issues: DriftIssue[];
+}
+
+function expandRulePath(pattern: string, home: string): string | null {
+  if (pattern.startsWith('~/')) return home + pattern.slice(1);
+  if (pattern.startsWith(home + '/')) return pattern;
+  return null;
+}
+
+/**
+ * Find ignored paths that are still reachable through a set of bind mounts.
+ * Explicit paths are resolved through the mounts; glob rules can only be
+ * checked against the mount sources themselves.
+ */
+async function findExposedIgnoredPaths(rules: IgnoreRule[], mounts: VolumeMount[]): Promise<string[]> {
+  const home = homedir();
+  const matcher = createIgnoreMatcher(rules, home);
+  const exposed = new Set<string>();
+
+  for (const mount of mounts) {
+    if (matcher.ignores(mount.source, true)) {
+      exposed.add(mount.source);
+    }
+  }
+
+  for (const rule of rules) {
+    if (rule.negated) continue;
+    const path = expandRulePath(rule.pattern.replace(/\/+$/, ''), home);
+    if (!path) continue;
+
+    const explanation = await explainPath(path, { composePath: '', rules, mounts });
+    if (explanation.visible) {
+      exposed.add(path);
+    }
+  }
+
+  return [...exposed];
+}
+
+function mountKey(mount: VolumeMount): string {
+  return `${mount.source.replace(/\/+$/, '')}:${mount.target.replace(/\/+$/, '')}`;
+}
+
+export async function collectStatus(
+  openclawRoot: string,
+  runtime: string = getContainerRuntime()
+): Promise<StatusReport> {
+  const clawignorePath = join(openclawRoot, '.clawignore');
+  const composePath = join(openclawRoot, 'docker-compose.yml');
+  const rules = await readIgnoreRules(clawignorePath);
+  const issues: DriftIssue[] = [];
+
+  let composeContent: string | null = null;
+  try {
+    composeContent = await readFile(composePath, 'utf-8');
+  } catch {
+    // No compose file generated yet
+  }
+
+  const volumes = (await readComposeVolumes(composePath)) ?? [];
+  let configHash: string | undefined;
+  try {
+    configHash = parseYaml(composeContent ?? '')?.services?.[CONTAINER_NAME]?.labels?.[CONFIG_HASH_LABEL];
+  } catch {
+    // Unparseable compose file, reported through readComposeVolumes
+  }
+
+  const checksum = composeContent ? verifyComposeChecksum(composeContent) : 'unknown';
+  if (checksum === 'modified') {
+    issues.push({
+      kind: 'compose-modified',
+      message: `${composePath} was edited by hand since clawignore generated it`,
+    });
+  }
+
+  for (const path of await findExposedIgnoredPaths(rules, volumes)) {
+    issues.push({
+      kind: 'ignored-path-in-compose',
+      message: `${path} is in .clawignore but docker-compose.yml still mounts it`,
+    });
+  }
+
+  const container = await inspectContainer(CONTAINER_NAME, runtime);
+  if (container) {
+    for (const path of await findExposedIgnoredPaths(rules, container.mounts)) {
+      issues.push({
+        kind: 'ignored-path-in-container',
+        message: `${path} is in .clawignore but the running container has it mounted`,
+      });
+    }
+
+    const liveHash = container.labels[CONFIG_HASH_LABEL];
+    const composeKeys = new Set(volumes.filter(v => !v.source.includes('$')).map(mountKey));
+    const liveKeys = new Set(container.mounts.map(mountKey));
+    const missing = [...composeKeys].filter(k => !liveKeys.has(k));
+    const extra = [...liveKeys].filter(k => !composeKeys.has(k));
+
+    if (configHash && liveHash && configHash !== liveHash) {
+      issues.push({
+        kind: 'container-outdated',
+        message: `Container was started from an older docker-compose.yml (config ${liveHash}, file has ${configHash})`,
+      });
+    } else if (composeContent && (missing.length > 0 || extra.length > 0)) {
+      issues.push({
+        kind: 'container-outdated',
+        message: `Container mounts differ from docker-compose.yml (${missing.length} missing, ${extra.length} extra)`,
+      });
+    }
+  }
+
+  return {
+    openclawRoot,
+    clawignore: { path: clawignorePath, rules },
+    compose: { path: composePath, found: composeContent !== null, checksum, configHash, volumes },
+    runtime,
+    container,
+    issues,
+  };
+}
+
+function printStatus(report: StatusReport) {
+  const ok = pc.green('✓');
+  const warn = pc.yellow('!');
+
+  console.log(pc.bold('.clawignore'));
+  console.log(`  ${report.clawignore.rules.length > 0 ? ok : warn} ${report.clawignore.path} (${report.clawignore.rules.length} rules)`);
+  console.log('');
+
+  console.log(pc.bold('docker-compose.yml'));
+  if (!report.compose.found) {
+    console.log(`  ${warn} ${report.compose.path} not found`);
+  } else {
+    const checksumText = {
+      ok: 'unchanged since generation',
+      modified: 'edited since generation',
+      unknown: 'not generated by clawignore (no checksum)',
+    }[report.compose.checksum];
+    const marker = report.compose.checksum === 'ok' ? ok : warn;
+    console.log(`  ${marker} ${report.compose.path} (${report.compose.volumes.length} volumes, ${checksumText})`);
+  }
+  console.log('');
+
+  console.log(pc.bold(`Container (${CONTAINER_NAME})`));
+  if (!report.container) {
+    console.log(`  ${warn} not found (is it created, and is ${report.runtime} available?)`);
+  } else {
+    const state = report.container.running ? 'running' : 'stopped';
+    console.log(`  ${report.container.running ? ok : warn} ${state}, ${report.container.mounts.length} bind mounts`);
+  }
+  console.log('');
+
+  if (report.issues.length === 0) {
+    console.log(`${ok} No drift detected`);
+    return;
+  }
+
+  console.log(pc.bold(pc.red(`Drift detected (${report.issues.length}):`)));
+  for (const issue of report.issues) {
+    console.log(`  ${pc.red('✗')} ${issue.message}`);
+  }
+  console.log('');
+  console.log(pc.dim('  Re-run clawignore to regenerate docker-compose.yml, then recreate the container:'));
+  console.log(pc.cyan(`    cd ${report.openclawRoot} && docker compose down && docker compose up -d`));
+}
+
+/**
+ * Exits 0 when .clawignore, docker-compose.yml and the container agree,
+ * 3 when drift was found.
+ */
+export async function runStatus(args: string[]): Promise<number> {
+  let values: { runtime?: string };
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        runtime: { type: 'string' },
+      },
+      strict: true,
+    }));
+  } catch (err) {
+    log.error(errorMessage(err));
+    return EXIT_USAGE;
+  }
+
+  try {
+    const openclawRoot = await resolveOpenClawRoot(getGlobalOptions().root);
+    const report = await collectStatus(openclawRoot, values.runtime);
+    if (getGlobalOptions().json) {
+      printJson(report);
+    } else {
+      printStatus(report);
+    }
+    return report.issues.length > 0 ? EXIT_PROBLEMS : EXIT_OK;
+  } catch (err) {
+    log.error(errorMessage(err));
+    return EXIT_ERROR;
+  }
+}
@@ -0,0 +1,105 @@
+import { ScanRule } from './scan-rules.js';
+
+/**
+ * Where command-line tools keep their logins. Hiding the file protects it
+ * from the agent; the remediation says how to stop keeping it in
+ * plain text at all.
+ */
+export interface ToolCredential {
+  id: string;
+  tool: string;
+  path: string;            // Relative to the home folder
+  files?: string[];        // Globs inside `path`, if it is a folder
+  reason: string;
+  remediation: string;
+  contentCheck?: RegExp;   // For files that only sometimes hold a secret
+}
+
+export const TOOL_CREDENTIALS: ToolCredential[] = [
+  {
+    id: 'gh-hosts',
+    tool: 'GitHub CLI',
+    path: '.config/gh/hosts.yml',
+    reason: 'GitHub CLI OAuth token',
+    remediation: 'Run `gh auth login` again with a keyring available, so the token moves out of hosts.yml',
+    contentCheck: /oauth_token:/,
+  },
+  {
+    id: 'gcloud-credentials',
+    tool: 'Google Cloud CLI',
+    path: '.config/gcloud',
+    files: ['credentials.db', 'access_tokens.db', 'application_default_credentials.json', 'legacy_credentials/**'],
+    reason: 'Google Cloud CLI credentials',
+    remediation: 'Run `gcloud auth revoke --all` when done, or use short-lived service account impersonation',
+  },
+  {
+    id: 'azure-token-cache',
+    tool: 'Azure CLI',
+    path: '.azure',
+    files: ['msal_token_cache.*', 'accessTokens.json', 'service_principal_entries.*'],
+    reason: 'Azure CLI token cache',
+    remediation: 'Run `az logout` when done; the MSAL cache holds refresh tokens',
+  },
+  {
+    id: 'vault-token',
+    tool: 'HashiCorp Vault',
+    path: '.vault-token',
+    reason: 'Vault token',
+    remediation: 'Run `vault token revoke -self` when done, or use short-TTL tokens',
+  },
+  {
+    id: 'git-credentials',
+    tool: 'Git',
+    path: '.git-credentials',
+    reason: 'Git credentials in plain text',
+    remediation: 'Switch `credential.helper` to osxkeychain, libsecret or manager and delete the file',
+  },
+  {
+    id: 'pgpass',
+    tool: 'PostgreSQL',
+    path: '.pgpass',
+    reason: 'PostgreSQL passwords',
+    remediation: 'Keep database passwords in a secret manager and point PGPASSFILE outside mounted folders',
+  },
+  {
+    id: 'mysql-client-config',
+    tool: 'MySQL',
+    path: '.my.cnf',
+    reason: 'MySQL client password',
+    remediation: 'Store the login with `mysql_config_editor set` instead of a password line',
+    contentCheck: /^\s*password\s*=/im,
+  },
+  {
+    id: 'terraform-credentials',
+    tool: 'Terraform',
+    path: '.terraform.d/credentials.tfrc.json',
+    reason: 'Terraform Cloud API token',
+    remediation: 'Run `terraform logout`, or set TF_TOKEN_* variables from a secret manager',
+  },
+  {
+    id: 'netrc',
+    tool: 'netrc (curl, ftp, git)',
+    path: '.netrc',
+    reason: 'Network login passwords',
+    remediation: 'Move the logins to a credential helper or keychain and delete the file',
+  },
+];
+
+function toolGlob(tool: ToolCredential): string {
+  if (!tool.files) return `**/${tool.path}`;
+  const files = tool.files.length === 1 ? tool.files[0] : `{${tool.files.join(',')}}`;
+  return `**/${tool.path}/${files}`;
+}
+
+export const TOOL_CREDENTIAL_RULES: ScanRule[] = TOOL_CREDENTIALS.map(tool => ({
+  id: tool.id,
+  pattern: toolGlob(tool),
+  reason: tool.reason,
+  category: 'credentials',
+  confidence: 'high',
+  remediation: tool.remediation,
+  ...(tool.contentCheck && { contentCheck: tool.contentCheck }),
+}));
+
+// Top-level names in the home folder that lead to a catalog entry
+export const TOOL_CREDENTIAL_ROOTS = new Set(TOOL_CREDENTIALS.map(tool => tool.path.split('/')[0]));
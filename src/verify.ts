@@ -0,0 +1,192 @@
+import pc from 'picocolors';
+import { parseArgs } from 'util';
+import { join } from 'path';
+import { homedir } from 'os';
+import { createIgnoreMatcher, readIgnoreRules } from './clawignore.js';
+import { explainPath } from './check-ignore.js';
+import { scanForSensitiveFiles } from './scanner.js';
+import {
+  getContainerRuntime,
+  inspectContainer,
+  listContainerFiles,
+  readComposeVolumes,
+  resolveOpenClawRoot,
+} from './docker.js';
+import { getGlobalOptions, log, errorMessage, printJson } from './output.js';
+import { EXIT_OK, EXIT_ERROR, EXIT_USAGE, EXIT_PROBLEMS } from './exit-codes.js';
+
+const CONTAINER_WORKSPACE = '/home/node/.openclaw/workspace';
+
+export interface VerifyCheck {
+  hostPath: string;
+  containerPath: string;
+  source: string;     // What says the path must be hidden
+  passed: boolean;
+}
+
+export interface VerifyReport {
+  method: 'exec' | 'run';
+  entries: number;
+  checks: VerifyCheck[];
+}
+
+interface VerifyOptions {
+  openclawRoot: string;
+  runtime: string;
+  scan: boolean;
+}
+
+// An entry exposes `containerPath` if it is the path itself or lies below it
+function isExposed(listing: Set<string>, containerPath: string): boolean {
+  const path = containerPath.replace(/\/+$/, '');
+  if (listing.has(path) || listing.has(path + '/')) return true;
+  for (const entry of listing) {
+    if (entry.startsWith(path + '/')) return true;
+  }
+  return false;
+}
+
+/**
+ * Ask the container what it can see and check that nothing hidden by
+ * .clawignore, and no high-confidence scanner finding, shows up.
+ */
+export async function verifyContainer(options: VerifyOptions): Promise<VerifyReport> {
+  const { openclawRoot, runtime } = options;
+  const home = homedir();
+  const composePath = join(openclawRoot, 'docker-compose.yml');
+  const clawignorePath = join(openclawRoot, '.clawignore');
+
+  const mounts = await readComposeVolumes(composePath);
+  if (!mounts) {
+    throw new Error(`No OpenClaw service found in ${composePath}`);
+  }
+
+  const container = await inspectContainer('openclaw-gateway', runtime);
+  const method = container?.running ? 'exec' : 'run';
+  const listing = new Set(await listContainerFiles(composePath, CONTAINER_WORKSPACE, method === 'exec', runtime));
+
+  const rules = await readIgnoreRules(clawignorePath);
+  const matcher = createIgnoreMatcher(rules, home);
+  const checks: VerifyCheck[] = [];
+  const checked = new Set<string>();
+
+  // Every entry the container lists must not match a .clawignore rule
+  for (const entry of listing) {
+    if (!entry.startsWith(CONTAINER_WORKSPACE + '/')) continue;
+    const isDirectory = entry.endsWith('/');
+    const relativePath = entry.slice(CONTAINER_WORKSPACE.length + 1).replace(/\/$/, '');
+    const hostPath = join(home, relativePath);
+    const rule = matcher.match(hostPath, isDirectory);
+    if (rule && !rule.negated) {
+      checked.add(hostPath);
+      checks.push({
+        hostPath,
+        containerPath: entry,
+        source: `${rule.source}:${rule.line}:${rule.pattern}`,
+        passed: false,
+      });
+    }
+  }
+
+  // Explicit paths in .clawignore must not resolve inside the container
+  for (const rule of rules) {
+    if (rule.negated) continue;
+    const pattern = rule.pattern.replace(/\/+$/, '');
+    const hostPath = pattern.startsWith('~/') ? home + pattern.slice(1) : pattern;
+    if (!hostPath.startsWith(home + '/') || checked.has(hostPath)) continue;
+    checked.add(hostPath);
+
+    const { containerPath } = await explainPath(hostPath, { composePath, rules, mounts });
+    checks.push({
+      hostPath,
+      containerPath,
+      source: `${rule.source}:${rule.line}:${rule.pattern}`,
+      passed: !isExposed(listing, containerPath),
+    });
+  }
+
+  // So must the scanner's high-confidence findings in the mounted folders
+  if (options.scan) {
+    const roots = mounts
+      .filter(m => m.target.startsWith(CONTAINER_WORKSPACE + '/'))
+      .map(m => m.source);
+
+    for (const root of roots) {
+      for (const finding of await scanForSensitiveFiles(root)) {
+        if (finding.confidence !== 'high' || checked.has(finding.path)) continue;
+        checked.add(finding.path);
+
+        const { containerPath } = await explainPath(finding.path, { composePath, rules, mounts });
+        checks.push({
+          hostPath: finding.path,
+          containerPath,
+          source: `scanner: ${finding.reason}`,
+          passed: !isExposed(listing, containerPath),
+        });
+      }
+    }
+  }
+
+  return { method, entries: listing.size, checks };
+}
+
+function printReport(report: VerifyReport) {
+  console.log(pc.bold(`Container view of ${CONTAINER_WORKSPACE}`) + pc.dim(` (${report.entries} entries, via compose ${report.method})`));
+  console.log('');
+
+  for (const check of report.checks) {
+    if (check.passed) {
+      console.log(`  ${pc.green('✓ hidden ')} ${check.hostPath} ${pc.dim(`(${check.source})`)}`);
+    } else {
+      console.log(`  ${pc.red('✗ VISIBLE')} ${check.hostPath} ${pc.dim('->')} ${check.containerPath}`);
+      console.log(pc.dim(`              ${check.source}`));
+    }
+  }
+
+  const failed = report.checks.filter(c => !c.passed).length;
+  console.log('');
+  if (report.checks.length === 0) {
+    console.log(pc.yellow('No hidden paths to check (empty .clawignore and no high-confidence findings)'));
+  } else if (failed === 0) {
+    console.log(pc.green(`PASS: all ${report.checks.length} hidden paths are absent from the container`));
+  } else {
+    console.log(pc.red(`FAIL: ${failed} of ${report.checks.length} hidden paths are visible inside the container`));
+  }
+}
+
+/**
+ * Exits 0 when every hidden path is absent, 3 when one is visible.
+ */
+export async function runVerify(args: string[]): Promise<number> {
+  let values: { runtime?: string; 'no-scan'?: boolean };
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        runtime: { type: 'string' },
+        'no-scan': { type: 'boolean' },
+      },
+      strict: true,
+    }));
+  } catch (err) {
+    log.error(errorMessage(err));
+    return EXIT_USAGE;
+  }
+
+  try {
+    const report = await verifyContainer({
+      openclawRoot: await resolveOpenClawRoot(getGlobalOptions().root),
+      runtime: values.runtime ?? getContainerRuntime(),
+      scan: !values['no-scan'],
+    });
+    if (getGlobalOptions().json) {
+      printJson({ ...report, passed: report.checks.every(c => c.passed) });
+    } else {
+      printReport(report);
+    }
+    return report.checks.some(c => !c.passed) ? EXIT_PROBLEMS : EXIT_OK;
+  } catch (err) {
+    log.error(errorMessage(err));
+    return EXIT_ERROR;
+  }
+}
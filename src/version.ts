@@ -0,0 +1,13 @@
+import { createRequire } from 'module';
+
+const require = createRequire(import.meta.url);
+
+export function getVersion(): string {
+  try {
+    // Resolved from dist/, one level below package.json
+    const pkg = require('../package.json') as { version?: string };
+    return pkg.version ?? 'unknown';
+  } catch {
+    return 'unknown';
+  }
+}
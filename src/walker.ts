@@ -0,0 +1,122 @@
+import { readdir, stat } from 'fs/promises';
+import { Stats } from 'fs';
+import { join, relative } from 'path';
+
+export interface WalkEntry {
+  path: string;
+  relativePath: string;
+  size: number;
+  mtimeMs: number;
+  ino: number;
+  mode: number;
+}
+
+export interface WalkProgress {
+  directories: number;
+  files: number;
+}
+
+export interface WalkOptions {
+  maxDepth?: number;                   // 0 visits only the root's own files
+  concurrency?: number;                // Directory reads and visits in flight
+  // Called with a relative path; excluded directories are not entered
+  isExcluded?: (relativePath: string) => boolean;
+  // Called for each directory below the root; true means don't enter it
+  onDirectory?: (entry: WalkEntry) => Promise<boolean>;
+  onProgress?: (progress: WalkProgress) => void;
+}
+
+const DEFAULT_CONCURRENCY = 16;
+
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+export function createLimiter(max: number): Limiter {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  return async (task) => {
+    if (active >= max) {
+      // The finishing task hands its slot over, see below
+      await new Promise<void>(resolve => waiting.push(resolve));
+    } else {
+      active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+}
+
+/**
+ * Walk `root` once, calling `visit` for every regular file. Symlinks to
+ * files are followed, symlinks to directories are not (they can loop), and
+ * sockets, FIFOs and devices are skipped. Unreadable directories are
+ * skipped silently, and so are those `onDirectory` claims.
+ */
+export async function walkFiles(
+  root: string,
+  visit: (entry: WalkEntry) => Promise<void>,
+  options: WalkOptions = {}
+): Promise<WalkProgress> {
+  const limit = createLimiter(options.concurrency ?? DEFAULT_CONCURRENCY);
+  const maxDepth = options.maxDepth ?? Infinity;
+  const progress: WalkProgress = { directories: 0, files: 0 };
+
+  const toEntry = (path: string, stats: Stats): WalkEntry => ({
+    path,
+    relativePath: relative(root, path),
+    size: stats.size,
+    mtimeMs: stats.mtimeMs,
+    ino: stats.ino,
+    mode: stats.mode,
+  });
+
+  async function visitFile(path: string) {
+    const stats = await stat(path).catch(() => null);
+    if (!stats?.isFile()) return;
+
+    progress.files++;
+    await limit(() => visit(toEntry(path, stats)));
+  }
+
+  // Whether the caller took the directory as a whole
+  async function claimDirectory(path: string): Promise<boolean> {
+    if (!options.onDirectory) return false;
+    const stats = await stat(path).catch(() => null);
+    return stats !== null && (await limit(() => options.onDirectory!(toEntry(path, stats))));
+  }
+
+  async function walkDirectory(dir: string, depth: number): Promise<void> {
+    const entries = await limit(() => readdir(dir, { withFileTypes: true })).catch(() => []);
+    progress.directories++;
+    options.onProgress?.({ ...progress });
+
+    const subdirectories: string[] = [];
+    const files: Promise<void>[] = [];
+
+    for (const entry of entries) {
+      const path = join(dir, entry.name);
+      if (options.isExcluded?.(relative(root, path))) continue;
+
+      if (entry.isDirectory()) {
+        subdirectories.push(path);
+      } else if (entry.isFile() || entry.isSymbolicLink()) {
+        files.push(visitFile(path));
+      }
+    }
+
+    await Promise.all(files);
+    await Promise.all(subdirectories.map(async path => {
+      if (!(await claimDirectory(path)) && depth < maxDepth) await walkDirectory(path, depth + 1);
+    }));
+  }
+
+  await walkDirectory(root, 0);
+  options.onProgress?.({ ...progress });
+  return progress;
+}
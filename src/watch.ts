@@ -0,0 +1,356 @@
+import pc from 'picocolors';
+import { parseArgs } from 'util';
+import { watch, FSWatcher } from 'fs';
+import { appendFile, stat } from 'fs/promises';
+import { join, resolve } from 'path';
+import { classifyFile, formatFilePath, scanForSensitiveFiles, SensitiveFile } from './scanner.js';
+import { createIgnoreMatcher, readIgnoreRules, IgnoreMatcher } from './clawignore.js';
+import { appendToClawignore } from './writer.js';
+import { regenerateDockerCompose } from './docker-generator.js';
+import { readManifest } from './manifest.js';
+import { resolveOpenClawRoot, startOpenClaw } from './docker.js';
+import { getGlobalOptions, log, errorMessage } from './output.js';
+import { ALLOWLIST_FILE } from './allowlist.js';
+import { clearRulesetCache, getUserRulesDir, PROJECT_RULE_FILES } from './rule-packs.js';
+import { EXIT_OK, EXIT_ERROR, EXIT_USAGE } from './exit-codes.js';
+
+export type WatchPolicy = 'alert' | 'log' | 'append';
+
+const WATCH_POLICIES: WatchPolicy[] = ['alert', 'log', 'append'];
+
+// Editors save in bursts, so events are collected for a moment first
+const DEBOUNCE_MS = 500;
+// New entries are batched before docker-compose.yml is regenerated
+const REAPPLY_DELAY_MS = 2000;
+// Where filesystem events are unavailable or fail
+const FALLBACK_POLL_SECONDS = 30;
+
+interface WatchOptions {
+  openclawRoot: string;
+  roots: string[];
+  policy: WatchPolicy;
+  logFile?: string;
+  pollSeconds?: number;
+}
+
+export interface WatchState {
+  options: WatchOptions;
+  matcher: IgnoreMatcher;
+  known: Map<string, string>;  // Fingerprints of the sensitive files seen, by path
+  pendingAppend: string[];
+  reapplyTimer?: NodeJS.Timeout;
+}
+
+async function handleFinding(state: WatchState, finding: SensitiveFile, changed: boolean) {
+  const { policy, logFile } = state.options;
+  const time = new Date().toISOString();
+  const entry = {
+    time,
+    event: changed ? 'changed' : 'new',
+    path: finding.path,
+    ...(finding.archiveEntry && { archiveEntry: finding.archiveEntry }),
+    ruleId: finding.ruleId,
+    reason: finding.reason,
+    category: finding.category,
+  };
+
+  if (getGlobalOptions().json) {
+    // One object per line, so the stream can be piped
+    process.stdout.write(JSON.stringify(entry) + '\n');
+  } else {
+    console.log(
+      `${pc.dim(time)} ${pc.red(`${entry.event} sensitive file`)} ${formatFilePath(finding, true)} ${pc.dim(`(${finding.reason})`)}`
+    );
+  }
+
+  if (policy === 'log' && logFile) {
+    await appendFile(logFile, JSON.stringify(entry) + '\n');
+  }
+
+  if (policy === 'append') {
+    state.pendingAppend.push(finding.path);
+    clearTimeout(state.reapplyTimer);
+    state.reapplyTimer = setTimeout(() => {
+      reapply(state).catch(err => log.error(`Could not re-apply: ${err instanceof Error ? err.message : err}`));
+    }, REAPPLY_DELAY_MS);
+  }
+}
+
+/**
+ * Hide the collected paths: append them to .clawignore, regenerate
+ * docker-compose.yml from the manifest and recreate the container.
+ */
+async function reapply(state: WatchState) {
+  const paths = state.pendingAppend.splice(0);
+  if (paths.length === 0) return;
+
+  const { openclawRoot } = state.options;
+  await appendToClawignore(openclawRoot, paths);
+  state.matcher = createIgnoreMatcher(await readIgnoreRules(join(openclawRoot, '.clawignore')));
+  log.success(`Added ${paths.length} ${paths.length === 1 ? 'path' : 'paths'} to .clawignore`);
+
+  if (!(await regenerateDockerCompose(openclawRoot))) {
+    log.warn('No clawignore.lock.json found; docker-compose.yml was not regenerated');
+    return;
+  }
+
+  await startOpenClaw(openclawRoot);
+  log.success('docker-compose.yml regenerated and OpenClaw restarted');
+}
+
+// Archive entries share the archive's path, so the entry is part of the key
+function findingKey(finding: SensitiveFile): string {
+  return formatFilePath(finding, true);
+}
+
+// Report a finding unless it is hidden or was seen with the same content
+async function reportFinding(state: WatchState, finding: SensitiveFile) {
+  if (state.matcher.ignores(finding.path, false)) return;
+
+  const key = findingKey(finding);
+  const previous = state.known.get(key);
+  if (previous === finding.fingerprint) return;
+
+  state.known.set(key, finding.fingerprint);
+  await handleFinding(state, finding, previous !== undefined);
+}
+
+async function checkPath(state: WatchState, root: string, path: string) {
+  if (state.matcher.ignores(path, false)) return;
+
+  const stats = await stat(path).catch(() => null);
+  if (!stats?.isFile()) {
+    state.known.delete(path);
+    return;
+  }
+
+  const finding = await classifyFile(path, root);
+  if (!finding) {
+    // No longer sensitive, so it is reported again if it becomes so
+    state.known.delete(path);
+    return;
+  }
+  await reportFinding(state, finding);
+}
+
+// Report what a full scan finds that is new or changed
+async function rescan(state: WatchState, root: string) {
+  for (const finding of await scanForSensitiveFiles(root)) {
+    await reportFinding(state, finding);
+  }
+}
+
+// The allowlist and rule packs in a watched folder change what is reported
+function isScanConfig(root: string, path: string): boolean {
+  return [ALLOWLIST_FILE, ...PROJECT_RULE_FILES].some(name => path === join(root, name));
+}
+
+/**
+ * An FSWatcher error (the folder was removed or unmounted, or the system
+ * ran out of watches) is thrown unless handled, ending the whole watch.
+ * Close the watcher instead and let `onFail` take over.
+ */
+function handleWatcherErrors(watcher: FSWatcher, what: string, onFail?: () => void) {
+  watcher.on('error', err => {
+    log.error(`Stopped watching ${what}: ${errorMessage(err)}`);
+    watcher.close();
+    onFail?.();
+  });
+}
+
+/**
+ * Check changed files as events arrive. `onFail` is called if the
+ * watcher stops working, to poll the folder instead.
+ */
+export function watchWithEvents(state: WatchState, root: string, onFail: () => void): FSWatcher {
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+
+  const watcher = watch(root, { recursive: true }, (_event, filename) => {
+    if (!filename) return;
+    pending.add(join(root, filename.toString()));
+
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      const paths = [...pending];
+      pending.clear();
+
+      if (paths.some(path => isScanConfig(root, path))) {
+        clearRulesetCache();
+        rescan(state, root).catch(err => log.error(`Could not rescan ${root}: ${errorMessage(err)}`));
+        return;
+      }
+      for (const path of paths) {
+        checkPath(state, root, path).catch(err => log.error(`Could not check ${path}: ${errorMessage(err)}`));
+      }
+    }, DEBOUNCE_MS);
+  });
+
+  handleWatcherErrors(watcher, root, onFail);
+  return watcher;
+}
+
+function watchWithPolling(state: WatchState, root: string, seconds: number): NodeJS.Timeout {
+  let running = false;
+
+  return setInterval(async () => {
+    if (running) return; // A slow scan is still going
+    running = true;
+    try {
+      clearRulesetCache(); // Cheap next to the scan, and picks up edited packs
+      await rescan(state, root);
+    } catch (err) {
+      log.error(`Could not rescan ${root}: ${errorMessage(err)}`);
+    } finally {
+      running = false;
+    }
+  }, seconds * 1000);
+}
+
+// Edited user rule packs apply to every watched folder
+export function watchUserRules(state: WatchState): FSWatcher | null {
+  let timer: NodeJS.Timeout | undefined;
+  let watcher: FSWatcher;
+  try {
+    watcher = watch(getUserRulesDir(), () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        clearRulesetCache();
+        for (const root of state.options.roots) {
+          rescan(state, root).catch(err => log.error(`Could not rescan ${root}: ${errorMessage(err)}`));
+        }
+      }, DEBOUNCE_MS);
+    });
+  } catch {
+    return null; // No user rule packs
+  }
+  handleWatcherErrors(watcher, 'user rule packs');
+  return watcher;
+}
+
+/**
+ * Watch the mounted folders until interrupted. Sensitive files present at
+ * start-up are counted but not reported; only new or changed ones are.
+ */
+export async function watchMounts(options: WatchOptions): Promise<void> {
+  const state: WatchState = {
+    options,
+    matcher: createIgnoreMatcher(await readIgnoreRules(join(options.openclawRoot, '.clawignore'))),
+    known: new Map(),
+    pendingAppend: [],
+  };
+
+  let visible = 0;
+  for (const root of options.roots) {
+    for (const finding of await scanForSensitiveFiles(root)) {
+      state.known.set(findingKey(finding), finding.fingerprint);
+      if (!state.matcher.ignores(finding.path, false)) visible++;
+    }
+  }
+
+  if (visible > 0) {
+    log.warn(`${visible} sensitive files are already visible; run ${pc.cyan('clawignore scan')} to review them`);
+  }
+
+  const watchers: FSWatcher[] = [];
+  const intervals: NodeJS.Timeout[] = [];
+
+  const userRules = options.pollSeconds ? null : watchUserRules(state);
+  if (userRules) watchers.push(userRules);
+
+  for (const root of options.roots) {
+    if (options.pollSeconds) {
+      intervals.push(watchWithPolling(state, root, options.pollSeconds));
+      continue;
+    }
+
+    const pollInstead = () => {
+      log.warn(`Cannot watch ${root} for events, polling every ${FALLBACK_POLL_SECONDS}s instead`);
+      intervals.push(watchWithPolling(state, root, FALLBACK_POLL_SECONDS));
+    };
+    try {
+      watchers.push(watchWithEvents(state, root, pollInstead));
+    } catch {
+      // Recursive fs.watch isn't available everywhere
+      pollInstead();
+    }
+  }
+
+  log.info(`Watching ${options.roots.length} folders (${options.policy} policy). Press Ctrl+C to stop.`);
+
+  await new Promise<void>(resolve => {
+    const stop = () => {
+      for (const watcher of watchers) watcher.close();
+      for (const interval of intervals) clearInterval(interval);
+      clearTimeout(state.reapplyTimer);
+      process.removeListener('SIGINT', stop);
+      process.removeListener('SIGTERM', stop);
+      resolve();
+    };
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+  });
+}
+
+export async function runWatch(args: string[]): Promise<number> {
+  let values: { policy?: string; 'log-file'?: string; poll?: string };
+  let positionals: string[];
+  try {
+    ({ values, positionals } = parseArgs({
+      args,
+      options: {
+        policy: { type: 'string', default: 'alert' },
+        'log-file': { type: 'string' },
+        poll: { type: 'string' },
+      },
+      allowPositionals: true,
+      strict: true,
+    }));
+  } catch (err) {
+    log.error(errorMessage(err));
+    return EXIT_USAGE;
+  }
+
+  const policy = values.policy as WatchPolicy;
+  if (!WATCH_POLICIES.includes(policy)) {
+    log.error(`Unknown policy "${values.policy}" (expected ${WATCH_POLICIES.join(', ')})`);
+    return EXIT_USAGE;
+  }
+  if (policy === 'log' && !values['log-file']) {
+    log.error('--policy log needs --log-file <path>');
+    return EXIT_USAGE;
+  }
+
+  const pollSeconds = values.poll !== undefined ? Number(values.poll) : undefined;
+  if (pollSeconds !== undefined && !(pollSeconds > 0)) {
+    log.error('--poll takes a number of seconds');
+    return EXIT_USAGE;
+  }
+
+  try {
+    const openclawRoot = await resolveOpenClawRoot(getGlobalOptions().root);
+
+    // Explicit folders win; otherwise watch what the generated config mounts
+    let roots = positionals.map(dir => resolve(dir));
+    if (roots.length === 0) {
+      const manifest = await readManifest(openclawRoot);
+      if (!manifest) {
+        log.error('No clawignore.lock.json found; pass the folders to watch or run setup first');
+        return EXIT_ERROR;
+      }
+      roots = manifest.mountPaths;
+    }
+
+    await watchMounts({
+      openclawRoot,
+      roots,
+      policy,
+      logFile: values['log-file'] && resolve(values['log-file']),
+      pollSeconds,
+    });
+    return EXIT_OK;
+  } catch (err) {
+    log.error(errorMessage(err));
+    return EXIT_ERROR;
+  }
+}
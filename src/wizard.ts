@@ -1,12 +1,19 @@
 import * as p from '@clack/prompts';
 import pc from 'picocolors';
-import { SensitiveFile, getCategoryIcon, groupByCategory } from './scanner.js';
+import { SensitiveFile, getCategoryIcon, getCategoryLabel, groupBySeverity, formatFilePath } from './scanner.js';
+import { getSeverityIcon, isAtLeast } from './severity.js';
 import { platform } from 'os';
 import { browseFiles, browseFilesSimple } from './browser.js';
+import { BaselineComparison, formatBaselineSummary } from './baseline.js';
 
+/**
+ * `baseline`, if given, limits the overview to what changed since it; the
+ * choices still cover every finding.
+ */
 export async function runWizard(
   sensitiveFiles: SensitiveFile[],
-  workspace: string
+  workspace: string,
+  baseline?: { files: SensitiveFile[]; comparison: BaselineComparison }
 ): Promise<string[]> {
   const selectedPatterns: string[] = [];
 
@@ -24,23 +31,7 @@ export async function runWizard(
     return await promptAddFiles(workspace);
   }
 
-  // Display found files grouped by category
-  console.log('');
-  const grouped = groupByCategory(sensitiveFiles);
-
-  for (const [category, files] of grouped) {
-    const categoryLabel = category.charAt(0).toUpperCase() + category.slice(1);
-    console.log(pc.bold(`  ${categoryLabel}:`));
-    for (const file of files.slice(0, 5)) {
-      const icon = getCategoryIcon(file.category);
-      console.log(`    ${icon} ${file.relativePath}`);
-      console.log(pc.dim(`       ${file.reason}`));
-    }
-    if (files.length > 5) {
-      console.log(pc.dim(`       ... and ${files.length - 5} more`));
-    }
-    console.log('');
-  }
+  printFindingsOverview(baseline?.files ?? sensitiveFiles, { baseline: baseline?.comparison });
 
   // Ask if they want to block all detected files
   const blockChoice = await p.select({
@@ -74,18 +65,23 @@ export async function runWizard(
     }
   } else if (blockChoice === 'choose') {
     // Let user pick individually
-    const choices = sensitiveFiles.map((file) => ({
-      value: file.relativePath,
-      label: `${getCategoryIcon(file.category)} ${file.relativePath}`,
-      hint: file.reason,
-    }));
+    // Entries of one archive are hidden together, by hiding the archive;
+    // files are sorted most severe first, so the first entry speaks for it
+    const seen = new Set<string>();
+    const choices = sensitiveFiles
+      .filter((file) => !seen.has(file.relativePath) && seen.add(file.relativePath))
+      .map((file) => ({
+        value: file.relativePath,
+        label: `${getSeverityIcon(file.severity)} ${file.relativePath}`,
+        hint: file.archiveEntry ? `contains ${file.archiveEntry}` : `${file.severity}: ${file.explanation}`,
+      }));
 
     const selected = await p.multiselect({
       message: 'Select files to block:',
       options: choices,
-      initialValues: sensitiveFiles
-        .filter((f) => f.confidence === 'high')
-        .map((f) => f.relativePath),
+      initialValues: [...new Set(sensitiveFiles
+        .filter((f) => isAtLeast(f.severity, 'high'))
+        .map((f) => f.relativePath))],
       required: false,
     });
 
@@ -116,6 +112,55 @@ export async function runWizard(
   return selectedPatterns;
 }
 
+/**
+ * Findings grouped by severity, five per group. With a baseline, only the
+ * new and changed ones are listed, followed by those resolved.
+ */
+export function printFindingsOverview(
+  sensitiveFiles: SensitiveFile[],
+  options: { absolute?: boolean; baseline?: BaselineComparison } = {}
+): void {
+  const { baseline } = options;
+  if (baseline) {
+    p.log.info(`${formatBaselineSummary(baseline)} ${pc.dim(`(${baseline.unchanged} unchanged not shown)`)}`);
+  }
+
+  console.log('');
+  const grouped = groupBySeverity(sensitiveFiles);
+
+  for (const [severity, files] of grouped) {
+    const severityLabel = severity.charAt(0).toUpperCase() + severity.slice(1);
+    console.log(pc.bold(`  ${severityLabel}:`));
+    for (const file of files.slice(0, 5)) {
+      const category = `${getCategoryIcon(file.category)} ${getCategoryLabel(file.category)}`;
+      const state = file.baselineState === 'new' ? ` ${pc.yellow('new')}` : file.baselineState === 'changed' ? ` ${pc.cyan('changed')}` : '';
+      console.log(`    ${getSeverityIcon(severity)} ${formatFilePath(file, options.absolute)}${state} ${pc.dim(category)}`);
+      console.log(pc.dim(`       ${file.explanation}`));
+      if (file.remediation) {
+        console.log(pc.dim(`       Fix: ${file.remediation}`));
+      }
+      for (const finding of file.findings?.slice(0, 2) ?? []) {
+        console.log(pc.dim(`       ${finding.name} at line ${finding.line}: ${finding.preview}`));
+      }
+    }
+    if (files.length > 5) {
+      console.log(pc.dim(`       ... and ${files.length - 5} more`));
+    }
+    console.log('');
+  }
+
+  if (baseline && baseline.resolved.length > 0) {
+    console.log(pc.bold('  Resolved:'));
+    for (const entry of baseline.resolved.slice(0, 5)) {
+      console.log(`    ${pc.green('✓')} ${entry.path} ${pc.dim(entry.ruleId)}`);
+    }
+    if (baseline.resolved.length > 5) {
+      console.log(pc.dim(`       ... and ${baseline.resolved.length - 5} more`));
+    }
+    console.log('');
+  }
+}
+
 async function promptAddFiles(workspace: string): Promise<string[]> {
   const method = await p.select({
     message: 'How do you want to add files?',
@@ -1,5 +1,8 @@
-import { writeFile, readFile, access } from 'fs/promises';
+import { readFile, access } from 'fs/promises';
 import { join } from 'path';
+import { snapshotFiles } from './backup.js';
+import { writeOutputFile } from './dry-run.js';
+import { matchPathRule } from './scan-rules.js';
 
 const HEADER = `# Clawignore - Files hidden from OpenClaw AI agent
 # Uses .gitignore syntax
@@ -16,6 +19,7 @@ const CATEGORY_COMMENTS: Record<string, string> = {
   keys: '# Private keys & certificates',
   config: '# Configuration files',
   data: '# Data files',
+  'app-data': '# Application data (browsers, password managers, chat apps)',
   custom: '# Custom patterns',
 };
 
@@ -57,7 +61,8 @@ export async function writeClawignore(
     content += '\n';
   }
 
-  await writeFile(clawignorePath, content.trimEnd() + '\n');
+  await snapshotFiles([clawignorePath], 'write .clawignore');
+  await writeOutputFile(clawignorePath, content.trimEnd() + '\n');
 
   return clawignorePath;
 }
@@ -83,6 +88,7 @@ function groupPatterns(patterns: string[]): Record<string, string[]> {
     keys: [],
     config: [],
     data: [],
+    'app-data': [],
     custom: [],
   };
 
@@ -94,72 +100,15 @@ function groupPatterns(patterns: string[]): Record<string, string[]> {
   return groups;
 }
 
-function categorizePattern(pattern: string): string {
-  const lower = pattern.toLowerCase();
-
-  // Secrets
-  if (
-    lower.includes('.env') ||
-    lower.includes('secret') ||
-    lower.includes('password')
-  ) {
-    return 'secrets';
-  }
-
-  // Credentials
-  if (
-    lower.includes('credential') ||
-    lower.includes('.aws') ||
-    lower.includes('.gcp') ||
-    lower.includes('.npmrc') ||
-    lower.includes('.pypirc') ||
-    lower.includes('kube') ||
-    lower.includes('token')
-  ) {
-    return 'credentials';
-  }
-
-  // Keys
-  if (
-    lower.includes('.pem') ||
-    lower.includes('.key') ||
-    lower.includes('.p12') ||
-    lower.includes('.pfx') ||
-    lower.includes('id_rsa') ||
-    lower.includes('id_ed25519') ||
-    lower.includes('id_ecdsa') ||
-    lower.includes('.ssh')
-  ) {
-    return 'keys';
-  }
-
-  // Config
-  if (
-    lower.includes('config') ||
-    lower.includes('.tfvars') ||
-    lower.includes('settings')
-  ) {
-    return 'config';
-  }
-
-  // Data
-  if (
-    lower.includes('.db') ||
-    lower.includes('.sqlite') ||
-    lower.includes('.xlsx') ||
-    lower.includes('.csv') ||
-    lower.includes('data')
-  ) {
-    return 'data';
-  }
-
-  return 'custom';
+// Grouped under the same category the scanner and browser give the path
+export function categorizePattern(pattern: string): string {
+  return matchPathRule(pattern.replace(/^!/, ''))?.category ?? 'custom';
 }
 
 export async function appendToClawignore(
   workspace: string,
   patterns: string[]
-): Promise<void> {
+): Promise<string[]> {
   const clawignorePath = join(workspace, '.clawignore');
 
   let content = '';
@@ -172,10 +121,10 @@ export async function appendToClawignore(
 
   // Add new patterns
   const existingPatterns = parseExistingPatterns(content);
-  const newPatterns = patterns.filter((p) => !existingPatterns.includes(p));
+  const newPatterns = [...new Set(patterns)].filter((p) => !existingPatterns.includes(p));
 
   if (newPatterns.length === 0) {
-    return; // Nothing new to add
+    return []; // Nothing new to add
   }
 
   content = content.trimEnd() + '\n\n# Added by clawignore\n';
@@ -183,5 +132,45 @@ export async function appendToClawignore(
     content += `${pattern}\n`;
   }
 
-  await writeFile(clawignorePath, content);
+  await snapshotFiles([clawignorePath], 'append to .clawignore');
+  await writeOutputFile(clawignorePath, content);
+
+  return newPatterns;
+}
+
+/**
+ * Drop lines that match `patterns` exactly, keeping comments and layout.
+ * Returns the patterns that were actually found.
+ */
+export async function removeFromClawignore(
+  workspace: string,
+  patterns: string[]
+): Promise<string[]> {
+  const clawignorePath = join(workspace, '.clawignore');
+
+  let content: string;
+  try {
+    content = await readFile(clawignorePath, 'utf-8');
+  } catch {
+    return []; // Nothing to remove from
+  }
+
+  const removed = new Set<string>();
+  const lines = content.split('\n').filter((line) => {
+    const trimmed = line.trim();
+    if (patterns.includes(trimmed)) {
+      removed.add(trimmed);
+      return false;
+    }
+    return true;
+  });
+
+  if (removed.size === 0) {
+    return [];
+  }
+
+  await snapshotFiles([clawignorePath], 'remove from .clawignore');
+  await writeOutputFile(clawignorePath, lines.join('\n'));
+
+  return [...removed];
 }
@@ -0,0 +1,48 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { classifyFile, formatFilePath, scanForSensitiveFiles } from '../src/scanner.js';
+import { buildRuleset } from '../src/scan-rules.js';
+import { setScanCacheEnabled } from '../src/scan-cache.js';
+
+// Folders kept as a whole by their application, a few files each
+const STORES: { folder: string; ruleId: string }[] = [
+  { folder: 'Library/Keychains', ruleId: 'macos-keychains' },
+  { folder: 'Library/Application Support/Signal/attachments.noindex', ruleId: 'signal-data' },
+  { folder: 'Library/Application Support/Slack/IndexedDB', ruleId: 'slack-local-storage' },
+  { folder: '.local/share/TelegramDesktop/tdata', ruleId: 'telegram-data' },
+];
+
+let root: string;
+
+beforeAll(async () => {
+  setScanCacheEnabled(false);
+  root = await mkdtemp(join(tmpdir(), 'clawignore-stores-'));
+  for (const { folder } of STORES) {
+    for (const name of ['a.bin', 'b.bin', 'nested/c.bin']) {
+      await mkdir(dirname(join(root, folder, name)), { recursive: true });
+      await writeFile(join(root, folder, name), 'x\n');
+    }
+  }
+});
+
+afterAll(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('application data stores', () => {
+  const ruleset = buildRuleset();
+
+  it('are reported once each, as the folder', async () => {
+    const files = await scanForSensitiveFiles(root, { ruleset });
+    expect(files.map(file => `${file.ruleId} ${formatFilePath(file)}`).sort()).toEqual(
+      STORES.map(({ folder, ruleId }) => `${ruleId} ${folder}/`).sort()
+    );
+  });
+
+  it.each(STORES)('stand in for a single file in $folder', async ({ folder, ruleId }) => {
+    const finding = await classifyFile(join(root, folder, 'nested/c.bin'), root, { ruleset });
+    expect(finding).toMatchObject({ ruleId, path: join(root, folder), relativePath: `${folder}/` });
+  });
+});
@@ -0,0 +1,47 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { mkdir, mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { applyConfiguration } from '../src/apply.js';
+
+let dir: string;
+let home: string | undefined;
+
+async function addSession(openclawRoot: string) {
+  const sessions = join(openclawRoot, 'agents', 'main', 'sessions');
+  await mkdir(sessions, { recursive: true });
+  await writeFile(join(sessions, 'session.jsonl'), '{}\n');
+  return sessions;
+}
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'clawignore-apply-'));
+  home = process.env.HOME;
+  process.env.HOME = join(dir, 'home');
+});
+
+afterAll(async () => {
+  process.env.HOME = home;
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('apply --root --yes', () => {
+  it('clears the sessions of that root only', async () => {
+    const homeSessions = await addSession(join(dir, 'home', '.openclaw'));
+    const root = join(dir, 'vm');
+    const rootSessions = await addSession(root);
+    await mkdir(join(dir, 'home', 'projects'), { recursive: true });
+
+    await applyConfiguration({
+      root,
+      mounts: [join(dir, 'home', 'projects')],
+      ignores: [],
+      acceptDetected: false,
+      restart: false,
+      yes: true,
+    });
+
+    expect(await readdir(rootSessions).catch(() => null)).toBeNull();
+    expect(await readdir(homeSessions)).toEqual(['session.jsonl']);
+  });
+});
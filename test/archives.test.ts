@@ -0,0 +1,67 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { createHash } from 'crypto';
+import { deflateRawSync } from 'zlib';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { classifyFile } from '../src/scanner.js';
+import { buildRuleset } from '../src/scan-rules.js';
+import { setScanCacheEnabled } from '../src/scan-cache.js';
+
+const CONTENT = 'AWS_SECRET_ACCESS_KEY=wJalrXUtnFEMI/K7MDENG/bPxRfiCYEXAMPLEKEY\n';
+
+// A zip with one deflated entry, no CRC: the scanner doesn't check it
+function zip(name: string, content: string): Buffer {
+  const data = Buffer.from(content);
+  const compressed = deflateRawSync(data);
+  const fileName = Buffer.from(name);
+
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(8, 8);
+  local.writeUInt32LE(compressed.length, 18);
+  local.writeUInt32LE(data.length, 22);
+  local.writeUInt16LE(fileName.length, 26);
+
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt32LE(compressed.length, 20);
+  central.writeUInt32LE(data.length, 24);
+  central.writeUInt16LE(fileName.length, 28);
+
+  const centralOffset = local.length + fileName.length + compressed.length;
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(1, 8);
+  end.writeUInt16LE(1, 10);
+  end.writeUInt32LE(central.length + fileName.length, 12);
+  end.writeUInt32LE(centralOffset, 16);
+
+  return Buffer.concat([local, fileName, compressed, central, fileName, end]);
+}
+
+let root: string;
+
+beforeAll(async () => {
+  setScanCacheEnabled(false);
+  root = await mkdtemp(join(tmpdir(), 'clawignore-archives-'));
+  await writeFile(join(root, 'backup.zip'), zip('prod/.env', CONTENT));
+});
+
+afterAll(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('archive entries', () => {
+  it('are inflated once, within a budget that fits them once', async () => {
+    const finding = await classifyFile(join(root, 'backup.zip'), root, {
+      ruleset: buildRuleset(),
+      archives: { maxExpandedSize: Buffer.byteLength(CONTENT) },
+    });
+    const hash = createHash('sha256').update(CONTENT).digest('hex');
+    expect(finding).toMatchObject({ archiveEntry: 'prod/.env' });
+    // A second inflation would run out of budget and hash the name instead
+    expect(finding?.fingerprint).toBe(`${finding?.ruleId}:${hash.slice(0, 16)}`);
+  });
+});
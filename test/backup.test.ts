@@ -0,0 +1,56 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { restoreSnapshot, snapshotFiles } from '../src/backup.js';
+
+let dir: string;
+let home: string | undefined;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'clawignore-backup-'));
+  // Snapshots go under the home folder
+  home = process.env.HOME;
+  process.env.HOME = dir;
+});
+
+afterAll(async () => {
+  process.env.HOME = home;
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('restoreSnapshot', () => {
+  it('restores every file', async () => {
+    const compose = join(dir, 'ok', 'docker-compose.yml');
+    const env = join(dir, 'ok', '.env');
+    await mkdir(join(dir, 'ok'));
+    await writeFile(compose, 'v1\n');
+    const snapshot = await snapshotFiles([compose, env], 'test');
+
+    await writeFile(compose, 'v2\n');
+    await writeFile(env, 'v2\n');
+    await restoreSnapshot(snapshot.id);
+
+    expect(await readFile(compose, 'utf-8')).toBe('v1\n');
+    expect(await readdir(join(dir, 'ok'))).toEqual(['docker-compose.yml']);
+  });
+
+  it('puts back the files already replaced when one fails', async () => {
+    const compose = join(dir, 'fail', 'docker-compose.yml');
+    const env = join(dir, 'fail', '.env');
+    await mkdir(join(dir, 'fail'));
+    await writeFile(compose, 'v1\n');
+    await writeFile(env, 'v1\n');
+    const snapshot = await snapshotFiles([compose, env], 'test');
+
+    await writeFile(compose, 'v2\n');
+    // A folder in the way of the second file makes its rename fail
+    await rm(env);
+    await mkdir(env);
+    await writeFile(join(env, 'keep'), '');
+
+    await expect(restoreSnapshot(snapshot.id)).rejects.toThrow();
+    expect(await readFile(compose, 'utf-8')).toBe('v2\n');
+    expect((await readdir(join(dir, 'fail'))).sort()).toEqual(['.env', 'docker-compose.yml']);
+  });
+});
@@ -0,0 +1,40 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { homedir, tmpdir } from 'os';
+import { join } from 'path';
+import { generateDockerCompose } from '../src/docker-generator.js';
+
+let openclawRoot: string;
+
+beforeAll(async () => {
+  // Outside the home folder, as with a custom OpenClaw location
+  openclawRoot = await mkdtemp(join(tmpdir(), 'clawignore-openclaw-'));
+  await writeFile(join(openclawRoot, 'openclaw.json'), JSON.stringify({ workspace: join(openclawRoot, 'workspace') }));
+});
+
+afterAll(async () => {
+  await rm(openclawRoot, { recursive: true, force: true });
+});
+
+describe('generateDockerCompose', () => {
+  it('builds every OpenClaw path from the OpenClaw folder', async () => {
+    const { composePath, envPath, dockerConfigPath } = await generateDockerCompose({
+      openclawRoot,
+      mountPaths: [],
+      ignoredPaths: [],
+      gatewayToken: 'token',
+    });
+
+    const compose = await readFile(composePath, 'utf-8');
+    for (const mount of ['openclaw.docker.json', 'credentials', 'memory', '.clawignore', 'workspace']) {
+      expect(compose).toContain(`${openclawRoot}/${mount}:/home/node/.openclaw/`);
+    }
+    expect(compose).not.toContain(join(homedir(), '.openclaw'));
+
+    const env = await readFile(envPath, 'utf-8');
+    expect(env).toContain(`OPENCLAW_CONFIG_DIR=${openclawRoot}\n`);
+    expect(env).toContain(`OPENCLAW_WORKSPACE_DIR=${openclawRoot}/workspace\n`);
+
+    expect(JSON.parse(await readFile(dockerConfigPath, 'utf-8'))).toEqual({ workspace: '/home/node/.openclaw/workspace' });
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { restartOpenClaw, startOpenClaw } from '../src/docker.js';
+import { calls, env, useStubRuntime } from './stub-runtime.js';
+
+useStubRuntime();
+
+describe('the container runtime', () => {
+  it('recreates the containers from docker-compose.yml', async () => {
+    await startOpenClaw(env.openclawRoot);
+    expect(await calls()).toEqual([['compose', 'down'], ['compose', 'up', '-d']]);
+  });
+
+  it('restarts them', async () => {
+    expect(await restartOpenClaw()).toBe(true);
+    expect(await calls()).toEqual([['compose', 'restart']]);
+  });
+});
@@ -0,0 +1,30 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { reportCommand, setDryRun, writeOutputFile } from '../src/dry-run.js';
+import { setGlobalOptions } from '../src/output.js';
+
+afterEach(() => {
+  setDryRun(false);
+  setGlobalOptions({ json: false, quiet: false });
+  vi.restoreAllMocks();
+});
+
+describe('dry-run previews', () => {
+  it('go to stdout', async () => {
+    const stdout = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    setDryRun(true);
+    await writeOutputFile('/nonexistent/clawignore-preview', 'new\n');
+    reportCommand('docker compose up -d');
+    expect(stdout).toHaveBeenCalled();
+  });
+
+  it('go to stderr with --json, leaving stdout to the result', async () => {
+    const stdout = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const stderr = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    setDryRun(true);
+    setGlobalOptions({ json: true, quiet: false });
+    await writeOutputFile('/nonexistent/clawignore-preview', 'new\n');
+    reportCommand('docker compose up -d');
+    expect(stdout).not.toHaveBeenCalled();
+    expect(stderr.mock.calls.flat().join('\n')).toContain('docker compose up -d');
+  });
+});
@@ -0,0 +1,12 @@
+import { describe, expect, it } from 'vitest';
+import { findHighEntropyStrings } from '../src/entropy.js';
+
+describe('hex values', () => {
+  it('are reported above the hex threshold', () => {
+    expect(findHighEntropyStrings('API_KEY=9f86d081884c7d659a2feaa0c55ad015\n')).toMatchObject([{ kind: 'hex' }]);
+  });
+
+  it('need a letter, so long numbers are not mistaken for them', () => {
+    expect(findHighEntropyStrings('ACCOUNT_NUMBER=12345678901234567890\n')).toEqual([]);
+  });
+});
@@ -0,0 +1,42 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { appendFile, mkdtemp, rm, writeFile } from 'fs/promises';
+import { createHash } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { classifyFile } from '../src/scanner.js';
+import { buildRuleset } from '../src/scan-rules.js';
+
+const MAX_FILE_SIZE = 1024;
+
+let root: string;
+
+beforeAll(async () => {
+  root = await mkdtemp(join(tmpdir(), 'clawignore-fingerprint-'));
+});
+
+afterAll(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('fingerprints', () => {
+  const options = { ruleset: buildRuleset(), maxFileSize: MAX_FILE_SIZE };
+
+  it('hash the whole content of files within the size limit', async () => {
+    const content = 'x'.repeat(MAX_FILE_SIZE);
+    await writeFile(join(root, 'small.kdbx'), content);
+    const finding = await classifyFile(join(root, 'small.kdbx'), root, options);
+    const hash = createHash('sha256').update(content).digest('hex');
+    expect(finding?.fingerprint).toBe(`keepass-database:${hash.slice(0, 16)}`);
+  });
+
+  it('hash the size and first bytes of larger files', async () => {
+    const path = join(root, 'large.kdbx');
+    await writeFile(path, 'x'.repeat(MAX_FILE_SIZE * 4));
+    const first = await classifyFile(path, root, options);
+    expect((await classifyFile(path, root, options))?.fingerprint).toBe(first?.fingerprint);
+
+    // A change past the first bytes still shows in the size
+    await appendFile(path, 'y');
+    expect((await classifyFile(path, root, options))?.fingerprint).not.toBe(first?.fingerprint);
+  });
+});
@@ -0,0 +1,34 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { classifyFile } from '../src/scanner.js';
+import { buildRuleset } from '../src/scan-rules.js';
+
+const MAX_FILE_SIZE = 4096;
+
+let root: string;
+
+beforeAll(async () => {
+  root = await mkdtemp(join(tmpdir(), 'clawignore-pii-'));
+});
+
+afterAll(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('personal data in exports over the size limit', () => {
+  const options = { ruleset: buildRuleset(), maxFileSize: MAX_FILE_SIZE };
+
+  it.each(['csv', 'tsv'])('is counted in the first lines of a .%s file', async extension => {
+    const rows = Array.from({ length: 1000 }, (_, i) => `Employee ${i}\t123-45-${String(1000 + i)}`);
+    const path = join(root, `employees.${extension}`);
+    await writeFile(path, rows.join('\n'));
+
+    const finding = await classifyFile(path, root, options);
+    expect(finding).toMatchObject({ ruleId: 'pii-text', category: 'data' });
+    // Only whole lines within the limit are read
+    expect(finding!.pii!.ssn).toBeGreaterThan(0);
+    expect(finding!.pii!.ssn).toBeLessThan(rows.length);
+  });
+});
@@ -0,0 +1,88 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { classifyFile } from '../src/scanner.js';
+import { buildRuleset } from '../src/scan-rules.js';
+import { clearRulesetCache, loadRuleset, PROJECT_RULE_FILES, TRUST_PROJECT_RULES_ENV, validateRulePack } from '../src/rule-packs.js';
+
+const TOKEN = 'ACME_0123456789ABCDEFGHIJKLMNOPQRSTUV';
+
+function packRuleset(confidence: 'high' | 'medium') {
+  const pack = validateRulePack({
+    version: 1,
+    rules: [{ id: 'acme-token', content: 'ACME_[A-Z0-9]{32}', reason: 'ACME internal token', category: 'secrets', confidence }],
+  }, 'test-pack.yaml');
+  return buildRuleset({ detectors: pack.detectors });
+}
+
+let root: string;
+
+beforeAll(async () => {
+  root = await mkdtemp(join(tmpdir(), 'clawignore-packs-'));
+  // No built-in rule matches these paths
+  await writeFile(join(root, 'notes.md'), `deploy with ${TOKEN}\n`);
+  await writeFile(join(root, 'plain.md'), '# Nothing here\n');
+});
+
+afterAll(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('content-only pack rules', () => {
+  it('fire on a file no path rule matches', async () => {
+    const finding = await classifyFile(join(root, 'notes.md'), root, { ruleset: packRuleset('high') });
+    expect(finding).toMatchObject({
+      ruleId: 'acme-token',
+      reason: 'ACME internal token',
+      category: 'secrets',
+      confidence: 'high',
+    });
+    expect(finding!.findings?.map(f => f.ruleId)).toEqual(['acme-token']);
+  });
+
+  it('report at the rule confidence', async () => {
+    const finding = await classifyFile(join(root, 'notes.md'), root, { ruleset: packRuleset('medium') });
+    expect(finding?.confidence).toBe('medium');
+  });
+
+  it('skip files without a match', async () => {
+    expect(await classifyFile(join(root, 'plain.md'), root, { ruleset: packRuleset('high') })).toBeNull();
+  });
+});
+
+describe('project packs', () => {
+  let project: string;
+  let configHome: string | undefined;
+
+  beforeAll(async () => {
+    // No user packs
+    configHome = process.env.XDG_CONFIG_HOME;
+    process.env.XDG_CONFIG_HOME = join(root, 'config');
+    project = join(root, 'project');
+    await mkdir(project);
+    await writeFile(join(project, PROJECT_RULE_FILES[0]), 'version: 1\ndisable: [env-file]\n');
+  });
+
+  afterEach(() => {
+    delete process.env[TRUST_PROJECT_RULES_ENV];
+    clearRulesetCache();
+  });
+
+  afterAll(() => {
+    process.env.XDG_CONFIG_HOME = configHome;
+  });
+
+  it('keep the built-in rules they disable, and say so', async () => {
+    const ruleset = await loadRuleset(project);
+    expect(ruleset.rules.some(rule => rule.id === 'env-file')).toBe(true);
+    expect(ruleset.projectPack).toEqual({ path: join(project, PROJECT_RULE_FILES[0]), disable: ['env-file'], applied: false });
+  });
+
+  it('disable them once the user trusts project packs', async () => {
+    process.env[TRUST_PROJECT_RULES_ENV] = '1';
+    const ruleset = await loadRuleset(project);
+    expect(ruleset.rules.some(rule => rule.id === 'env-file')).toBe(false);
+    expect(ruleset.projectPack?.applied).toBe(true);
+  });
+});
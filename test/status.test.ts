@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { join } from 'path';
+import { CONFIG_HASH_LABEL } from '../src/docker-generator.js';
+import { getContainerRuntime } from '../src/docker.js';
+import { collectStatus } from '../src/status.js';
+import { calls, env, setContainer, useStubRuntime, WORKSPACE } from './stub-runtime.js';
+
+useStubRuntime();
+
+describe('CLAWIGNORE_RUNTIME', () => {
+  it('replaces docker', () => {
+    expect(getContainerRuntime()).toBe(env.runtime);
+  });
+});
+
+describe('status', () => {
+  it('reports no container when the runtime has none', async () => {
+    const report = await collectStatus(env.openclawRoot);
+    expect(report.runtime).toBe(env.runtime);
+    expect(report.container).toBeNull();
+    expect(report.issues).toEqual([]);
+    expect(await calls()).toEqual([['inspect', 'openclaw-gateway']]);
+  });
+
+  it('finds no drift when the container matches docker-compose.yml', async () => {
+    const { compose } = await collectStatus(env.openclawRoot);
+    await setContainer({
+      running: true,
+      mounts: compose.volumes,
+      labels: { [CONFIG_HASH_LABEL]: compose.configHash! },
+    });
+
+    const report = await collectStatus(env.openclawRoot);
+    expect(report.container).toMatchObject({ running: true });
+    expect(report.issues).toEqual([]);
+  });
+
+  it('flags a container that still mounts an ignored path', async () => {
+    const { compose } = await collectStatus(env.openclawRoot);
+    const exposed = { source: join(env.home, 'projects'), target: `${WORKSPACE}/projects`, readOnly: false };
+    await setContainer({
+      running: true,
+      mounts: [...compose.volumes, exposed],
+      labels: { [CONFIG_HASH_LABEL]: 'older' },
+    });
+
+    const kinds = (await collectStatus(env.openclawRoot)).issues.map(issue => issue.kind);
+    expect(kinds).toEqual(['ignored-path-in-container', 'container-outdated']);
+  });
+});
@@ -0,0 +1,108 @@
+import { afterAll, beforeAll, beforeEach } from 'vitest';
+import { chmod, mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { generateDockerCompose } from '../src/docker-generator.js';
+import { VolumeMount } from '../src/docker.js';
+
+export const WORKSPACE = '/home/node/.openclaw/workspace';
+
+// Stands in for `docker`: answers `inspect` from inspect.json (or fails
+// like a missing container) and `compose exec|run ... find` from
+// listing.txt, logging every call
+const STUB_RUNTIME = `#!/usr/bin/env node
+const { appendFileSync, existsSync, readFileSync } = require('fs');
+const { join } = require('path');
+const dir = __dirname;
+const args = process.argv.slice(2);
+appendFileSync(join(dir, 'calls.log'), JSON.stringify(args) + '\\n');
+if (args[0] === 'inspect') {
+  if (!existsSync(join(dir, 'inspect.json'))) {
+    process.stderr.write('Error: No such object: ' + args[1] + '\\n');
+    process.exit(1);
+  }
+  process.stdout.write(readFileSync(join(dir, 'inspect.json'), 'utf-8'));
+} else if (args[0] === 'compose') {
+  process.stdout.write(readFileSync(join(dir, 'listing.txt'), 'utf-8'));
+} else {
+  process.exit(2);
+}
+`;
+
+let root: string;
+let stubDir: string;
+let previous: { home?: string; runtime?: string };
+
+// Set up by useStubRuntime
+export const env = { home: '', openclawRoot: '', runtime: '' };
+
+export async function setContainer(container: { running: boolean; mounts: VolumeMount[]; labels?: Record<string, string> } | null) {
+  const path = join(stubDir, 'inspect.json');
+  if (!container) {
+    await rm(path, { force: true });
+    return;
+  }
+  await writeFile(path, JSON.stringify([{
+    State: { Running: container.running },
+    Mounts: container.mounts.map(m => ({ Type: 'bind', Source: m.source, Destination: m.target, RW: !m.readOnly })),
+    Config: { Labels: container.labels ?? {} },
+  }]));
+}
+
+export async function setListing(relativePaths: string[]) {
+  await writeFile(join(stubDir, 'listing.txt'), relativePaths.map(path => `${WORKSPACE}/${path}\n`).join(''));
+}
+
+export async function calls(): Promise<string[][]> {
+  const log = await readFile(join(stubDir, 'calls.log'), 'utf-8').catch(() => '');
+  return log.split('\n').filter(Boolean).map(line => JSON.parse(line));
+}
+
+/**
+ * A home folder with a generated setup that mounts ~/projects/app and
+ * hides ~/projects/secrets, and the stub as CLAWIGNORE_RUNTIME.
+ */
+export function useStubRuntime(): void {
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'clawignore-runtime-'));
+    const home = join(root, 'home');
+    const openclawRoot = join(home, '.openclaw');
+    stubDir = join(root, 'stub');
+    Object.assign(env, { home, openclawRoot, runtime: join(stubDir, 'docker') });
+
+    previous = { home: process.env.HOME, runtime: process.env.CLAWIGNORE_RUNTIME };
+    process.env.HOME = home;
+    process.env.CLAWIGNORE_RUNTIME = env.runtime;
+
+    await mkdir(stubDir, { recursive: true });
+    await writeFile(join(stubDir, 'docker'), STUB_RUNTIME);
+    await chmod(join(stubDir, 'docker'), 0o755);
+
+    // As setup plans it: the hidden folder's sibling is mounted, not their parent
+    await mkdir(join(home, 'projects', 'app'), { recursive: true });
+    await mkdir(join(home, 'projects', 'secrets'), { recursive: true });
+    await mkdir(openclawRoot, { recursive: true });
+    await writeFile(join(home, 'projects', 'app', 'README.md'), '# Hello\n');
+    await writeFile(join(home, 'projects', 'secrets', 'api.txt'), 'API_KEY=abc\n');
+    await generateDockerCompose({
+      openclawRoot,
+      mountPaths: [join(home, 'projects', 'app')],
+      mountRoots: [join(home, 'projects')],
+      ignoredPaths: ['~/projects/secrets/'],
+      gatewayToken: 'token',
+    });
+  });
+
+  afterAll(async () => {
+    process.env.HOME = previous.home;
+    if (previous.runtime === undefined) delete process.env.CLAWIGNORE_RUNTIME;
+    else process.env.CLAWIGNORE_RUNTIME = previous.runtime;
+    await rm(root, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    await rm(join(stubDir, 'calls.log'), { force: true });
+    await setContainer(null);
+    await setListing([]);
+  });
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { join } from 'path';
+import { verifyContainer } from '../src/verify.js';
+import { calls, env, setContainer, setListing, useStubRuntime } from './stub-runtime.js';
+
+useStubRuntime();
+
+describe('verify', () => {
+  const options = () => ({ openclawRoot: env.openclawRoot, runtime: env.runtime, scan: true });
+
+  it('passes when hidden paths are absent, listing a running container with exec', async () => {
+    await setContainer({ running: true, mounts: [] });
+    await setListing(['projects/', 'projects/app/', 'projects/app/README.md']);
+
+    const report = await verifyContainer(options());
+    expect(report.method).toBe('exec');
+    expect(report.checks.map(c => [c.hostPath, c.passed])).toEqual([[join(env.home, 'projects', 'secrets'), true]]);
+    expect((await calls()).find(args => args[0] === 'compose')).toContain('exec');
+  });
+
+  it('fails when a hidden path shows up, listing a stopped container with run', async () => {
+    await setContainer({ running: false, mounts: [] });
+    await setListing(['projects/', 'projects/app/', 'projects/app/README.md', 'projects/secrets/', 'projects/secrets/api.txt']);
+
+    const report = await verifyContainer(options());
+    expect(report.method).toBe('run');
+    expect(report.checks.filter(c => !c.passed).map(c => c.hostPath)).toContain(join(env.home, 'projects', 'secrets'));
+    expect((await calls()).find(args => args[0] === 'compose')).toContain('run');
+  });
+});
@@ -0,0 +1,61 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { mkdir, mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { watchUserRules, watchWithEvents, WatchState } from '../src/watch.js';
+import { createIgnoreMatcher } from '../src/clawignore.js';
+import { setGlobalOptions } from '../src/output.js';
+
+let dir: string;
+let configHome: string | undefined;
+
+function createState(roots: string[]): WatchState {
+  return {
+    options: { openclawRoot: join(dir, '.openclaw'), roots, policy: 'alert' },
+    matcher: createIgnoreMatcher([]),
+    known: new Map(),
+    pendingAppend: [],
+  };
+}
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'clawignore-watch-'));
+  configHome = process.env.XDG_CONFIG_HOME;
+  process.env.XDG_CONFIG_HOME = join(dir, 'config');
+  await mkdir(join(dir, 'config', 'clawignore', 'rules'), { recursive: true });
+  // Errors go to stderr as plain lines
+  setGlobalOptions({ json: true, quiet: false });
+});
+
+afterAll(async () => {
+  process.env.XDG_CONFIG_HOME = configHome;
+  setGlobalOptions({ json: false, quiet: false });
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('watcher errors', () => {
+  it('close the folder watcher and fall back to polling', () => {
+    const stderr = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const onFail = vi.fn();
+    const watcher = watchWithEvents(createState([dir]), dir, onFail);
+    const close = vi.spyOn(watcher, 'close');
+
+    expect(() => watcher.emit('error', new Error('ENOSPC: System limit for number of file watchers reached'))).not.toThrow();
+    expect(close).toHaveBeenCalled();
+    expect(onFail).toHaveBeenCalledOnce();
+    expect(stderr.mock.calls.flat().join('\n')).toContain(`Stopped watching ${dir}: ENOSPC`);
+    stderr.mockRestore();
+  });
+
+  it('close the user rule pack watcher', () => {
+    const stderr = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const watcher = watchUserRules(createState([dir]))!;
+    expect(watcher).not.toBeNull();
+    const close = vi.spyOn(watcher, 'close');
+
+    expect(() => watcher.emit('error', new Error('EACCES'))).not.toThrow();
+    expect(close).toHaveBeenCalled();
+    expect(stderr.mock.calls.flat().join('\n')).toContain('Stopped watching user rule packs: EACCES');
+    stderr.mockRestore();
+  });
+});